@@ -0,0 +1,88 @@
+import type { BoundsI } from './selection';
+import type { RectI } from './sketchpad';
+
+export type TemplateType = 'grid' | 'ruled' | 'dot';
+
+// Drawn under every layer. The background isn't part of the drawing, so
+// the eraser never touches it and it isn't saved by `toJSON`
+export interface BackgroundI {
+  image?: CanvasImageSource | string; // An image, or the URL of one
+  scale?: 'fit' | 'fill'; // Fit the whole image inside the canvas, or fill the canvas with it, cropping the image
+  template?: TemplateType; // Paper drawn over the image
+  spacing?: number; // Between template lines or dots, relative to the canvas width
+  templateColor?: string;
+}
+
+const DEFAULT_SPACING = 0.05;
+const DEFAULT_TEMPLATE_COLOR = '#c5cfdb';
+
+// Draw an image centred on the canvas, scaled to fit inside it or to fill
+// it. Images that haven't loaded yet are skipped
+export function drawBackgroundImage(
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  scale: BackgroundI['scale'],
+  size: RectI,
+): void {
+  const imageSize = getImageSize(image);
+  if (imageSize.width === 0 || imageSize.height === 0) {
+    return;
+  }
+
+  const ratios = [size.width / imageSize.width, size.height / imageSize.height];
+  const ratio = scale === 'fill' ? Math.max(...ratios) : Math.min(...ratios);
+  const width = imageSize.width * ratio;
+  const height = imageSize.height * ratio;
+  ctx.drawImage(image, (size.width - width) / 2, (size.height - height) / 2, width, height);
+}
+
+// Draw lines or dots across an area of the canvas, like printed paper.
+// The area may reach beyond the canvas, as the paper has no edges
+export function drawTemplate(ctx: CanvasRenderingContext2D, background: BackgroundI, size: RectI, area: BoundsI): void {
+  const spacing = (background.spacing || DEFAULT_SPACING) * size.width;
+  if (background.template == null || spacing < 1) {
+    return;
+  }
+
+  ctx.save();
+  ctx.strokeStyle = background.templateColor || DEFAULT_TEMPLATE_COLOR;
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.lineWidth = 1;
+  const left = (Math.floor(area.x / spacing) + 1) * spacing;
+  const top = (Math.floor(area.y / spacing) + 1) * spacing;
+  const right = area.x + area.width;
+  const bottom = area.y + area.height;
+  ctx.beginPath();
+  if (background.template === 'dot') {
+    const radius = Math.max(1, spacing / 20);
+    for (let x = left; x < right; x += spacing) {
+      for (let y = top; y < bottom; y += spacing) {
+        ctx.moveTo(x + radius, y);
+        ctx.arc(x, y, radius, 0, 2 * Math.PI);
+      }
+    }
+    ctx.fill();
+  } else {
+    for (let y = top; y < bottom; y += spacing) {
+      ctx.moveTo(area.x, y);
+      ctx.lineTo(right, y);
+    }
+    for (let x = left; background.template === 'grid' && x < right; x += spacing) {
+      ctx.moveTo(x, area.y);
+      ctx.lineTo(x, bottom);
+    }
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+function getImageSize(image: CanvasImageSource): RectI {
+  const source = image as { naturalWidth?: number; naturalHeight?: number; width?: unknown; height?: unknown };
+  if (source.naturalWidth != null && source.naturalHeight != null) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  if (typeof source.width === 'number' && typeof source.height === 'number') {
+    return { width: source.width, height: source.height };
+  }
+  return { width: 0, height: 0 };
+}
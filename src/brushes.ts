@@ -0,0 +1,43 @@
+export type BrushType = 'pen' | 'highlighter' | 'marker' | 'dashed' | 'calligraphy';
+
+export const BRUSH_TYPES: Array<BrushType> = ['pen', 'highlighter', 'marker', 'dashed', 'calligraphy'];
+
+// How strokes drawn with a brush are painted
+export interface BrushStyleI {
+  // Opacity of the whole stroke. Translucent strokes are painted as a
+  // single path, so they don't darken where they overlap themselves
+  readonly alpha: number;
+  readonly composite: GlobalCompositeOperation;
+  readonly cap?: CanvasLineCap; // Replaces the stroke's own cap
+  readonly dash?: [number, number]; // Lengths of dashes and gaps, relative to the line width
+  readonly isDirectional: boolean; // Whether the width follows the direction of the stroke, like a broad nib
+}
+
+const BRUSH_STYLES: { [brush in BrushType]: BrushStyleI } = {
+  pen: { alpha: 1, composite: 'source-over', isDirectional: false },
+  // Multiplied with what is underneath, so dark text shows through
+  highlighter: { alpha: 0.4, composite: 'multiply', cap: 'butt', isDirectional: false },
+  marker: { alpha: 0.85, composite: 'source-over', cap: 'square', isDirectional: false },
+  dashed: { alpha: 1, composite: 'source-over', cap: 'butt', dash: [3, 2], isDirectional: false },
+  calligraphy: { alpha: 1, composite: 'source-over', cap: 'round', isDirectional: true },
+};
+
+// Angle of a calligraphy nib, from the x axis. Strokes along it are thinnest
+const NIB_ANGLE = -Math.PI / 4;
+// Width of a calligraphy stroke drawn along the nib, relative to the line width
+const NIB_MIN_WIDTH = 0.2;
+
+// Get how a brush paints, treating strokes without a brush as drawn in pen
+export function getBrushStyle(brush?: BrushType): BrushStyleI {
+  return BRUSH_STYLES[brush || 'pen'];
+}
+
+// Scale the line width of a calligraphy segment heading along (dx, dy):
+// full width across the nib, thinning towards NIB_MIN_WIDTH along it
+export function getNibWidthScale(dx: number, dy: number): number {
+  if (dx === 0 && dy === 0) {
+    return 1;
+  }
+  const across = Math.abs(Math.sin(Math.atan2(dy, dx) - NIB_ANGLE));
+  return NIB_MIN_WIDTH + (1 - NIB_MIN_WIDTH) * across;
+}
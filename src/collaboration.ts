@@ -0,0 +1,108 @@
+import type { StrokeI } from './sketchpad';
+
+// A change made by one author, sent to the other sketchpads editing the
+// same drawing. Strokes are never edited in place: a change removes
+// strokes by ID and adds new ones
+export interface OperationI {
+  readonly id: string;
+  readonly author: string;
+  readonly clock: number; // Lamport timestamp, ordering concurrent operations
+  readonly added: Array<StrokePlacementI>;
+  readonly removed: Array<StrokePlacementI>;
+}
+
+// A stroke along with where it sits in the drawing
+export interface StrokePlacementI {
+  readonly layer: string;
+  readonly index: number;
+  readonly stroke: StrokeI;
+}
+
+// Carries operations between sketchpads
+export interface TransportI {
+  send(op: OperationI): void;
+  onReceive(listener: (op: OperationI) => void): void;
+  close(): void;
+}
+
+// Order operations by timestamp, then by author. When two operations
+// conflict, the one ordered first wins on every sketchpad
+export function compareOperations(a: OperationI, b: OperationI): number {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+  return a.author < b.author ? -1 : a.author > b.author ? 1 : 0;
+}
+
+// Connects sketchpads on the same page, such as in tests, without a server.
+// Operations are delivered synchronously to every other transport
+export class InMemoryChannel {
+  private readonly transports: Array<InMemoryTransport> = [];
+
+  connect(): TransportI {
+    const transport = new InMemoryTransport(this);
+    this.transports.push(transport);
+    return transport;
+  }
+
+  broadcast(sender: InMemoryTransport, op: OperationI): void {
+    // Copy each operation, as a real transport would serialize it
+    const message = JSON.stringify(op);
+    this.transports.slice().forEach((t) => {
+      if (t !== sender) {
+        t.receive(JSON.parse(message));
+      }
+    });
+  }
+
+  disconnect(transport: InMemoryTransport): void {
+    const index = this.transports.indexOf(transport);
+    if (index !== -1) {
+      this.transports.splice(index, 1);
+    }
+  }
+}
+
+class InMemoryTransport implements TransportI {
+  private listeners: Array<(op: OperationI) => void> = [];
+
+  constructor(private readonly channel: InMemoryChannel) {}
+
+  send(op: OperationI): void {
+    this.channel.broadcast(this, op);
+  }
+
+  onReceive(listener: (op: OperationI) => void): void {
+    this.listeners.push(listener);
+  }
+
+  receive(op: OperationI): void {
+    this.listeners.forEach((listener) => listener(op));
+  }
+
+  close(): void {
+    this.channel.disconnect(this);
+    this.listeners = [];
+  }
+}
+
+// Connects sketchpads in other tabs and windows of the same origin
+export class BroadcastChannelTransport implements TransportI {
+  private readonly channel: BroadcastChannel;
+
+  constructor(name: string) {
+    this.channel = new BroadcastChannel(name);
+  }
+
+  send(op: OperationI): void {
+    this.channel.postMessage(op);
+  }
+
+  onReceive(listener: (op: OperationI) => void): void {
+    this.channel.addEventListener('message', (e) => listener((e as MessageEvent).data));
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
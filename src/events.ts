@@ -0,0 +1,29 @@
+export type ListenerFn<T> = (payload: T) => void;
+
+// Calls the listeners subscribed to an event with that event's payload
+export class EventEmitter<EventMap> {
+  private listeners: { [K in keyof EventMap]?: Array<ListenerFn<EventMap[K]>> } = {};
+
+  on<K extends keyof EventMap>(name: K, listener: ListenerFn<EventMap[K]>): void {
+    const listeners = this.listeners[name] || [];
+    listeners.push(listener);
+    this.listeners[name] = listeners;
+  }
+
+  off<K extends keyof EventMap>(name: K, listener: ListenerFn<EventMap[K]>): void {
+    const listeners = this.listeners[name];
+    if (listeners == null) {
+      return;
+    }
+
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  emit<K extends keyof EventMap>(name: K, payload: EventMap[K]): void {
+    // Copy so listeners can unsubscribe while being called
+    (this.listeners[name] || []).slice().forEach((listener) => listener(payload));
+  }
+}
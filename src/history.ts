@@ -0,0 +1,126 @@
+// An invertible change to the sketchpad
+export interface CommandI {
+  apply(): void;
+  revert(): void;
+}
+
+// Applies a group of commands as a single change
+export class CompositeCommand implements CommandI {
+  constructor(readonly commands: Array<CommandI>) {}
+
+  apply(): void {
+    this.commands.forEach((c) => c.apply());
+  }
+
+  revert(): void {
+    for (let i = this.commands.length - 1; i >= 0; i--) {
+      this.commands[i].revert();
+    }
+  }
+}
+
+// Keeps track of applied commands so they can be undone and redone
+export class History {
+  private done: Array<CommandI> = [];
+  private undone: Array<CommandI> = [];
+  private transaction: Array<CommandI> = [];
+  private transactionDepth = 0;
+  private listener?: () => void;
+
+  constructor(private depth = Infinity) {}
+
+  // Set a function to call after a change is recorded, undone or redone.
+  // Changes recorded in a transaction are reported once it ends
+  onChange(listener: () => void): void {
+    this.listener = listener;
+  }
+
+  // Commands that have been undone and can be redone, most recent last
+  get undoneCommands(): Array<CommandI> {
+    return this.undone.slice();
+  }
+
+  // Set how many commands are kept; the oldest are dropped first
+  setDepth(depth: number): void {
+    if (depth < 0) {
+      throw new Error('History depth must not be negative');
+    }
+    this.depth = depth;
+    this.trim();
+  }
+
+  // Record a command that has already been applied
+  record(command: CommandI): void {
+    if (this.transactionDepth > 0) {
+      this.transaction.push(command);
+      return;
+    }
+
+    this.done.push(command);
+    this.undone = [];
+    this.trim();
+    this.listener?.();
+  }
+
+  canUndo(): boolean {
+    return this.done.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+
+  undo(): boolean {
+    const command = this.done.pop();
+    if (command == null) {
+      return false;
+    }
+
+    command.revert();
+    this.undone.push(command);
+    this.listener?.();
+    return true;
+  }
+
+  redo(): boolean {
+    const command = this.undone.pop();
+    if (command == null) {
+      return false;
+    }
+
+    command.apply();
+    this.done.push(command);
+    this.listener?.();
+    return true;
+  }
+
+  // Group every command recorded until the matching `end` into one
+  // change. Transactions may be nested
+  begin(): void {
+    this.transactionDepth++;
+  }
+
+  end(): void {
+    if (this.transactionDepth === 0) {
+      throw new Error('No transaction to end');
+    }
+    this.transactionDepth--;
+    if (this.transactionDepth > 0) {
+      return;
+    }
+
+    const commands = this.transaction;
+    this.transaction = [];
+    if (commands.length === 1) {
+      this.record(commands[0]);
+    } else if (commands.length > 1) {
+      this.record(new CompositeCommand(commands));
+    }
+  }
+
+  private trim(): void {
+    while (this.done.length > this.depth) {
+      this.done.shift();
+    }
+  }
+}
@@ -0,0 +1,336 @@
+import { getBrushStyle } from './brushes';
+import { averagePressure, getSegmentLineWidth, isDrawnInSegments } from './render';
+import type { LayerI, PointI, RectI, StrokeI, TextI } from './sketchpad';
+import { DEFAULT_FONT, DEFAULT_TEXT_COLOR, LINE_HEIGHT } from './text';
+
+// Distance from the top of a line of text to its baseline, relative to
+// the font size. Canvas text is drawn from the top, PDF text from the
+// baseline
+const FONT_ASCENT = 0.8;
+
+const LINE_CAPS: { [cap in CanvasLineCap]: number } = { butt: 0, round: 1, square: 2 };
+const LINE_JOINS: { [join in CanvasLineJoin]: number } = { miter: 0, round: 1, bevel: 2 };
+
+interface ColorI {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// Graphics states and fonts used by the page, named as they are in its
+// content streams
+interface ResourcesI {
+  states: { [name: string]: string };
+  fonts: { [name: string]: string };
+  forms: Array<string>; // Content of translucent layers
+}
+
+// Convert layers into a single page PDF document whose page is the size
+// of the canvas, bottom layer first, with the text of each layer above its
+// strokes. Strokes are written as vector paths, so they stay sharp when
+// printed. Translucent layers are drawn as transparency groups carrying
+// their opacity
+export function layersToPDF(layers: Array<LayerI>, size: RectI, backgroundColor?: string): Uint8Array {
+  const resources: ResourcesI = { states: {}, fonts: {}, forms: [] };
+  // PDF's y axis points up, so the page is flipped to match the canvas
+  const content = [`1 0 0 -1 0 ${formatNumber(size.height)} cm`];
+
+  if (backgroundColor) {
+    const color = parseColor(backgroundColor);
+    content.push('q', ...setAlpha(resources, 'ca', color.a));
+    content.push(`${formatColor(color)} rg 0 0 ${formatNumber(size.width)} ${formatNumber(size.height)} re f`, 'Q');
+  }
+
+  layers.forEach((layer) => {
+    const operators: Array<string> = [];
+    (layer.strokes || []).forEach((stroke) => operators.push(...strokeToOperators(stroke, size, resources)));
+    (layer.texts || []).forEach((text) => operators.push(...textToOperators(text, size, resources)));
+
+    if (layer.opacity != null && layer.opacity < 1 && operators.length > 0) {
+      resources.forms.push(operators.join('\n'));
+      content.push('q', ...setAlpha(resources, 'ca', layer.opacity), `/Fm${resources.forms.length - 1} Do`, 'Q');
+    } else {
+      content.push(...operators);
+    }
+  });
+
+  return writeDocument(content.join('\n'), size, resources);
+}
+
+// Write the operators painting a stroke, starting a new sub-path wherever
+// points have been skipped by the eraser. Runs of a single point draw
+// nothing on the canvas, so they are left out here as well
+function strokeToOperators(stroke: StrokeI, size: RectI, resources: ResourcesI): Array<string> {
+  const runs: Array<Array<PointI>> = [];
+  let run: Array<PointI> = [];
+  (stroke.points || []).forEach((point) => {
+    if (point.skipped) {
+      run = [];
+    } else {
+      if (run.length === 0) {
+        runs.push(run);
+      }
+      run.push({ x: point.x * size.width, y: point.y * size.height, pressure: point.pressure });
+    }
+  });
+  const paths = runs.filter((r) => r.length > 1);
+  if (paths.length === 0) {
+    return [];
+  }
+
+  const brush = getBrushStyle(stroke.brush);
+  const cap = brush.cap || stroke.cap;
+  const lineWidth = (stroke.width || 0) * size.width;
+  const color = parseColor(stroke.color || '#000');
+  const operators = [
+    'q',
+    `${formatColor(color)} RG`,
+    ...setAlpha(resources, 'CA', color.a * brush.alpha, brush.composite),
+  ];
+  if (stroke.width) {
+    operators.push(`${formatNumber(lineWidth)} w`);
+  }
+  if (cap) {
+    operators.push(`${LINE_CAPS[cap]} J`);
+  }
+  if (stroke.join) {
+    operators.push(`${LINE_JOINS[stroke.join]} j`);
+  }
+  if (stroke.miterLimit) {
+    operators.push(`${formatNumber(stroke.miterLimit)} M`);
+  }
+  const dash = brush.dash && stroke.width ? brush.dash.map((d) => formatNumber(d * lineWidth)).join(' ') : undefined;
+  if (dash) {
+    operators.push(`[${dash}] 0 d`);
+  }
+
+  if (!isDrawnInSegments(stroke)) {
+    paths.forEach((points) => {
+      points.forEach((p, i) => operators.push(`${formatNumber(p.x)} ${formatNumber(p.y)} ${i === 0 ? 'm' : 'l'}`));
+    });
+    operators.push('S', 'Q');
+    return operators;
+  }
+
+  // Widths following pressure or a nib's direction are written segment by
+  // segment, like they are drawn on the canvas, with dashes carried on
+  // from one segment to the next
+  let dashOffset = 0;
+  paths.forEach((points) => {
+    for (let i = 0; i < points.length - 1; i++) {
+      const from = points[i];
+      const to = points[i + 1];
+      const width = getSegmentLineWidth(stroke, size, averagePressure(from.pressure, to.pressure), from, to);
+      if (stroke.width) {
+        operators.push(`${formatNumber(width)} w`);
+      }
+      if (dash) {
+        operators.push(`[${dash}] ${formatNumber(dashOffset)} d`);
+      }
+      operators.push(
+        `${formatNumber(from.x)} ${formatNumber(from.y)} m ${formatNumber(to.x)} ${formatNumber(to.y)} l S`,
+      );
+      dashOffset += Math.hypot(to.x - from.x, to.y - from.y);
+    }
+  });
+  operators.push('Q');
+  return operators;
+}
+
+// Write the operators painting typed text, a line at a time, in the
+// standard font closest to its font family. The text is flipped back up,
+// as the page is flipped to match the canvas
+function textToOperators(text: TextI, size: RectI, resources: ResourcesI): Array<string> {
+  const fontSize = text.size * size.width;
+  const color = parseColor(text.color || DEFAULT_TEXT_COLOR);
+  const font = getFontName(text.font || DEFAULT_FONT);
+  resources.fonts[font.name] =
+    `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`;
+
+  const operators = ['q', ...setAlpha(resources, 'ca', color.a), 'BT', `/${font.name} ${formatNumber(fontSize)} Tf`];
+  operators.push(`${formatColor(color)} rg`);
+  text.text.split('\n').forEach((line, i) => {
+    const y = text.y * size.height + (i * LINE_HEIGHT + FONT_ASCENT) * fontSize;
+    operators.push(`1 0 0 -1 ${formatNumber(text.x * size.width)} ${formatNumber(y)} Tm (${escapeString(line)}) Tj`);
+  });
+  operators.push('ET', 'Q');
+  return operators;
+}
+
+// PDF viewers have serif, sans-serif and monospace fonts of their own, so
+// the text needs no embedded font
+function getFontName(family: string): { name: string; baseFont: string } {
+  const lower = family.toLowerCase();
+  if (/mono|courier/.test(lower)) {
+    return { name: 'F2', baseFont: 'Courier' };
+  }
+  if (/times|georgia|(^|[^-])serif/.test(lower)) {
+    return { name: 'F1', baseFont: 'Times-Roman' };
+  }
+  return { name: 'F0', baseFont: 'Helvetica' };
+}
+
+// Get the operators setting a graphics state with the given alpha and
+// blending, for strokes (`CA`) or fills (`ca`). Opaque paint needs none
+function setAlpha(
+  resources: ResourcesI,
+  key: 'CA' | 'ca',
+  alpha: number,
+  composite?: GlobalCompositeOperation,
+): Array<string> {
+  const blend = composite === 'multiply' ? ' /BM /Multiply' : '';
+  if (alpha >= 1 && !blend) {
+    return [];
+  }
+
+  const state = `<< /${key} ${formatNumber(alpha)}${blend} >>`;
+  let name = Object.keys(resources.states).filter((n) => resources.states[n] === state)[0];
+  if (name == null) {
+    name = `GS${Object.keys(resources.states).length}`;
+    resources.states[name] = state;
+  }
+  return [`/${name} gs`];
+}
+
+// Lay out the objects of the document, followed by the cross-reference
+// table giving the byte offset of each. Everything written is ASCII, apart
+// from the binary comment marking the file as binary, so each character is
+// a single byte
+function writeDocument(content: string, size: RectI, resources: ResourcesI): Uint8Array {
+  const box = `[0 0 ${formatNumber(size.width)} ${formatNumber(size.height)}]`;
+  const formIds = resources.forms.map((_, i) => 6 + i);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox ${box} /Resources 4 0 R /Contents 5 0 R >>`,
+    `<< /ExtGState ${writeDictionary(resources.states)} /Font ${writeDictionary(resources.fonts)} ` +
+      `/XObject << ${formIds.map((id, i) => `/Fm${i} ${id} 0 R`).join(' ')} >> >>`,
+    writeStream('', content),
+    ...resources.forms.map((form) =>
+      writeStream(`/Type /XObject /Subtype /Form /BBox ${box} /Resources 4 0 R /Group << /S /Transparency >> `, form),
+    ),
+  ];
+
+  let pdf = '%PDF-1.4\n%\u00e2\u00e3\u00cf\u00d3\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach((offset) => {
+    pdf += `${('000000000' + offset).slice(-10)} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) {
+    bytes[i] = pdf.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function writeDictionary(entries: { [name: string]: string }): string {
+  return `<< ${Object.keys(entries)
+    .map((name) => `/${name} ${entries[name]}`)
+    .join(' ')} >>`;
+}
+
+function writeStream(dictionary: string, data: string): string {
+  return `<< ${dictionary}/Length ${data.length} >>\nstream\n${data}\nendstream`;
+}
+
+// Parse a CSS color in hex or rgb() notation. Other colors, such as named
+// ones, are resolved by a canvas when there is a DOM
+function parseColor(color: string): ColorI {
+  const value = color.trim().toLowerCase();
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    const channels = [0, 2, 4, 6].map((i) => parseInt(digits.slice(i, i + 2) || 'ff', 16) / 255);
+    return { r: channels[0], g: channels[1], b: channels[2], a: channels[3] };
+  }
+
+  const rgb = /^rgba?\(([^)]*)\)$/.exec(value);
+  if (rgb) {
+    const channels = rgb[1].split(/[\s,/]+/).filter((c) => c !== '');
+    if (channels.length === 3 || channels.length === 4) {
+      const [r, g, b] = channels.slice(0, 3).map((c) => parseChannel(c, 255));
+      return { r, g, b, a: channels.length === 4 ? parseChannel(channels[3], 1) : 1 };
+    }
+  }
+
+  if (value === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+  const resolved = resolveColor(value);
+  if (resolved != null) {
+    return resolved;
+  }
+  throw new Error(`Unsupported color "${color}"`);
+}
+
+// Parse a color channel, or a percentage of it, as a fraction of its range
+function parseChannel(channel: string, range: number): number {
+  const value = parseFloat(channel);
+  const fraction = /%$/.test(channel) ? value / 100 : value / range;
+  return Math.min(Math.max(isNaN(fraction) ? 0 : fraction, 0), 1);
+}
+
+// Let a canvas read any other CSS color, by painting a pixel with it.
+// Colors it doesn't understand leave the pixel as it was, whichever color
+// that was
+function resolveColor(color: string): ColorI | undefined {
+  if (typeof document === 'undefined') {
+    return undefined;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d');
+  if (ctx == null) {
+    return undefined;
+  }
+  const pixels = ['#000', '#fff'].map((fallback) => {
+    ctx.clearRect(0, 0, 1, 1);
+    ctx.fillStyle = fallback;
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, 1, 1);
+    return Array.from(ctx.getImageData(0, 0, 1, 1).data);
+  });
+  if (pixels[0].join() !== pixels[1].join()) {
+    return undefined;
+  }
+  const [r, g, b, a] = pixels[0];
+  return { r: r / 255, g: g / 255, b: b / 255, a: a / 255 };
+}
+
+function formatColor(color: ColorI): string {
+  return [color.r, color.g, color.b].map(formatNumber).join(' ');
+}
+
+// PDF numbers have no exponent notation, so they are rounded to a fixed
+// number of decimals
+function formatNumber(n: number): string {
+  return (Math.round(n * 1000) / 1000).toString();
+}
+
+// Escape a line of text as a PDF string in WinAnsi encoding, writing
+// characters beyond ASCII as octal escapes. Characters the encoding
+// doesn't have become question marks
+function escapeString(text: string): string {
+  let escaped = '';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code > 255) {
+      escaped += '?';
+    } else if (code < 32 || code > 126) {
+      escaped += '\\' + ('00' + code.toString(8)).slice(-3);
+    } else {
+      escaped += /[()\\]/.test(text[i]) ? '\\' + text[i] : text[i];
+    }
+  }
+  return escaped;
+}
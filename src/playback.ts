@@ -0,0 +1,87 @@
+import type { PointI, StrokeI } from './sketchpad';
+
+// Longest wait, in milliseconds, between strokes during playback. Longer
+// breaks taken while drawing are shortened to this
+const MAX_PAUSE = 1000;
+// Time taken to replay a stroke without timing, such as a shape
+const UNTIMED_STROKE_DURATION = 250;
+
+// When a stroke is drawn during playback, in milliseconds from the start
+export interface TimelineEntryI<T extends StrokeI> {
+  readonly stroke: T;
+  readonly start: number;
+  readonly end: number;
+}
+
+export interface TimelineI<T extends StrokeI> {
+  readonly entries: Array<TimelineEntryI<T>>;
+  readonly duration: number;
+}
+
+// Lay strokes out in the order they were drawn, keeping the pace at which
+// they were drawn. Strokes without timing follow the stroke before them
+// in the drawing
+export function buildTimeline<T extends StrokeI>(strokes: Array<T>): TimelineI<T> {
+  let previousTime: number | undefined;
+  const ordered = strokes
+    .map((stroke, index) => {
+      const time = getFirstTime(stroke.points || []);
+      previousTime = time ?? previousTime;
+      return { stroke: stroke, index: index, time: previousTime == null ? -Infinity : previousTime };
+    })
+    .sort((a, b) => (a.time !== b.time ? (a.time < b.time ? -1 : 1) : a.index - b.index));
+
+  const entries: Array<TimelineEntryI<T>> = [];
+  let position = 0;
+  let previousEnd: number | undefined;
+  ordered.forEach(({ stroke }) => {
+    const points = stroke.points || [];
+    const first = getFirstTime(points);
+    const last = getFirstTime(points.slice().reverse());
+    if (first != null && last != null) {
+      if (previousEnd != null) {
+        position += Math.min(Math.max(first - previousEnd, 0), MAX_PAUSE);
+      }
+      entries.push({ stroke: stroke, start: position, end: position + last - first });
+      previousEnd = last;
+    } else {
+      entries.push({ stroke: stroke, start: position, end: position + UNTIMED_STROKE_DURATION });
+    }
+    position = entries[entries.length - 1].end;
+  });
+
+  return { entries: entries, duration: position };
+}
+
+// Get how many of a stroke's points have been drawn at a position in the
+// timeline. Strokes without timing are drawn at an even pace
+export function getPointsDrawn<T extends StrokeI>(entry: TimelineEntryI<T>, position: number): number {
+  const points = entry.stroke.points || [];
+  if (position >= entry.end) {
+    return points.length;
+  }
+  if (position < entry.start) {
+    return 0;
+  }
+
+  const first = getFirstTime(points);
+  const elapsed = position - entry.start;
+  if (first == null) {
+    return Math.floor((points.length * elapsed) / (entry.end - entry.start));
+  }
+
+  let count = 0;
+  while (count < points.length && (points[count].time ?? first) - first <= elapsed) {
+    count++;
+  }
+  return count;
+}
+
+function getFirstTime(points: Array<PointI>): number | undefined {
+  for (let i = 0; i < points.length; i++) {
+    if (points[i].time != null) {
+      return points[i].time;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,311 @@
+import { BackgroundI, drawBackgroundImage, drawTemplate } from './background';
+import { getBrushStyle, getNibWidthScale } from './brushes';
+import { migrateData } from './schema';
+import type { DataI, LayerI, PointI, RectI, StrokeI } from './sketchpad';
+import { drawText } from './text';
+
+// How saved data is drawn by `renderDrawing`
+export interface RenderOptionsI {
+  width: number; // Points are stretched to this size, like they are to the canvas of a sketchpad
+  height: number;
+  backgroundColor?: string;
+  background?: BackgroundI; // Its image must already be loaded
+  // Makes the canvas translucent layers are drawn on before they are added
+  // to the output, such as node-canvas's `createCanvas`. It's given the
+  // size of the output canvas. Only needed without a DOM
+  createCanvas?: (width: number, height: number) => HTMLCanvasElement;
+}
+
+// Draw saved data to any canvas context, such as one made by node-canvas
+// to render thumbnails on a server, exactly as a sketchpad draws it. The
+// drawing goes under the context's transform, so it can be scaled or moved
+export function renderDrawing(ctx: CanvasRenderingContext2D, data: DataI, opts: RenderOptionsI): void {
+  const layers = migrateData(data).layers || [];
+  const size = { width: opts.width, height: opts.height };
+  const background = opts.background || {};
+  if (typeof background.image === 'string') {
+    throw new Error('Background images must be loaded before rendering');
+  }
+
+  ctx.clearRect(0, 0, size.width, size.height);
+  if (opts.backgroundColor) {
+    ctx.fillStyle = opts.backgroundColor;
+    ctx.fillRect(0, 0, size.width, size.height);
+  }
+  if (background.image) {
+    drawBackgroundImage(ctx, background.image, background.scale, size);
+  }
+  drawTemplate(ctx, background, size, { x: 0, y: 0, width: size.width, height: size.height });
+
+  layers.forEach((layer) => {
+    const opacity = layer.opacity ?? 1;
+    if (layer.visible === false) {
+      return;
+    }
+    if (opacity >= 1) {
+      drawLayer(ctx, layer, size);
+      return;
+    }
+
+    // Translucent layers are drawn on their own first, so their strokes
+    // don't build up opacity where they overlap
+    const canvas = createLayerCanvas(opts, ctx.canvas.width, ctx.canvas.height);
+    const layerCtx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    layerCtx.setTransform(ctx.getTransform());
+    drawLayer(layerCtx, layer, size);
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = opacity;
+    ctx.drawImage(canvas, 0, 0);
+    ctx.restore();
+  });
+}
+
+// Draw a single stroke, on a canvas of the given size
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: StrokeI, size: RectI): void {
+  if (stroke.points == null) return;
+
+  ctx.save();
+  setStrokeStyle(ctx, stroke, size);
+
+  if (isDrawnInSegments(stroke)) {
+    drawStrokeInSegments(ctx, stroke, size);
+    ctx.restore();
+    return;
+  }
+
+  // Each run of points between erased ones is a single sub-path, so that
+  // dashes flow along it
+  ctx.beginPath();
+  for (let i = 0; i < stroke.points.length - 1; i++) {
+    const currentPoint = stroke.points[i];
+    const nextPoint = stroke.points[i + 1];
+
+    if (!(currentPoint.skipped || (nextPoint && nextPoint.skipped))) {
+      const e = toPixels(currentPoint, size);
+      const n = toPixels(nextPoint, size);
+      if (i === 0 || stroke.points[i - 1].skipped) {
+        ctx.moveTo(e.x, e.y);
+      }
+      ctx.lineTo(n.x, n.y);
+    }
+  }
+
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Draw a stroke as quadratic curves through the midpoints between its
+// points, smoothing strokes while they are being drawn
+export function drawQuadraticCurveStroke(ctx: CanvasRenderingContext2D, stroke: StrokeI, size: RectI): void {
+  if (stroke.points == null) return;
+
+  ctx.save();
+  setStrokeStyle(ctx, stroke, size);
+
+  if (isDrawnInSegments(stroke)) {
+    drawQuadraticCurveStrokeInSegments(ctx, stroke, size);
+    ctx.restore();
+    return;
+  }
+
+  ctx.beginPath();
+
+  let originPt = toPixels(stroke.points[0], size);
+  let controlPt = originPt;
+  let destinationPt = originPt;
+  if (stroke.points.length > 1) {
+    destinationPt = toPixels(midPoint(stroke.points[0], stroke.points[1]), size);
+  }
+  if (!(originPt.skipped || (destinationPt && destinationPt.skipped))) {
+    ctx.moveTo(originPt.x, originPt.y);
+    ctx.quadraticCurveTo(controlPt.x, controlPt.y, destinationPt.x, destinationPt.y);
+  }
+  for (let i = 1; i < stroke.points.length - 1; i++) {
+    originPt = destinationPt;
+    controlPt = toPixels(stroke.points[i], size);
+    destinationPt = toPixels(midPoint(stroke.points[i], stroke.points[i + 1]), size);
+
+    if (!(originPt.skipped || (destinationPt && destinationPt.skipped))) {
+      ctx.quadraticCurveTo(controlPt.x, controlPt.y, destinationPt.x, destinationPt.y);
+    }
+  }
+
+  ctx.stroke();
+  ctx.restore();
+}
+
+export function midPoint(p1: PointI, p2: PointI): PointI {
+  return {
+    x: (p1.x + p2.x) / 2,
+    y: (p1.y + p2.y) / 2,
+    skipped: false,
+    pressure: averagePressure(p1.pressure, p2.pressure),
+    time: p1.time != null && p2.time != null ? (p1.time + p2.time) / 2 : undefined,
+  };
+}
+
+// How far the paint of a stroke reaches past its points: half its widest
+// line, and further at the corners of square caps. Sharp miter joins may
+// reach further still
+export function getInkReach(stroke: StrokeI, size: RectI): number {
+  const scales = (stroke.points || []).map((p) => pressureToLineWidthScale(p.pressure));
+  const width = (stroke.width || 0) * size.width * Math.max(1, ...scales);
+  const cap = getBrushStyle(stroke.brush).cap || stroke.cap;
+  return (width / 2) * (cap === 'square' ? Math.SQRT2 : 1);
+}
+
+// Get the line width of a stroke segment, scaled by the given pressure,
+// and by its direction for brushes with a nib
+export function getSegmentLineWidth(
+  stroke: StrokeI,
+  size: RectI,
+  pressure: number | undefined,
+  from: PointI,
+  to: PointI,
+): number {
+  const nibScale = getBrushStyle(stroke.brush).isDirectional ? getNibWidthScale(to.x - from.x, to.y - from.y) : 1;
+  return (stroke.width || 0) * size.width * pressureToLineWidthScale(pressure) * nibScale;
+}
+
+// Whether a stroke's width varies along it, so it's drawn segment by
+// segment. Translucent brushes are always drawn as a single path, as the
+// segments would darken where they overlap
+export function isDrawnInSegments(stroke: StrokeI): boolean {
+  const brush = getBrushStyle(stroke.brush);
+  return brush.alpha >= 1 && (brush.isDirectional || hasPressure(stroke));
+}
+
+export function averagePressure(p1?: number, p2?: number): number | undefined {
+  if (p1 == null || p2 == null) {
+    return p1 == null ? p2 : p1;
+  }
+  return (p1 + p2) / 2;
+}
+
+// Draw the strokes of a layer, with its text above them
+function drawLayer(ctx: CanvasRenderingContext2D, layer: LayerI, size: RectI): void {
+  (layer.strokes || []).forEach((s) => drawStroke(ctx, s, size));
+  (layer.texts || []).forEach((t) => drawText(ctx, t, size));
+}
+
+function createLayerCanvas(opts: RenderOptionsI, width: number, height: number): HTMLCanvasElement {
+  if (opts.createCanvas) {
+    return opts.createCanvas(width, height);
+  }
+  if (typeof document === 'undefined') {
+    throw new Error('Rendering translucent layers without a DOM needs `createCanvas`');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+// Apply a stroke's line style, and the way its brush paints, to the
+// canvas context
+function setStrokeStyle(ctx: CanvasRenderingContext2D, stroke: StrokeI, size: RectI): void {
+  const brush = getBrushStyle(stroke.brush);
+  if (stroke.color) {
+    ctx.strokeStyle = stroke.color;
+  }
+  if (stroke.width) {
+    ctx.lineWidth = stroke.width * size.width;
+  }
+  if (stroke.join) {
+    ctx.lineJoin = stroke.join;
+  }
+  if (brush.cap || stroke.cap) {
+    ctx.lineCap = (brush.cap || stroke.cap) as CanvasLineCap;
+  }
+  if (stroke.miterLimit) {
+    ctx.miterLimit = stroke.miterLimit;
+  }
+  ctx.globalAlpha *= brush.alpha;
+  ctx.globalCompositeOperation = brush.composite;
+  if (brush.dash) {
+    const lineWidth = ctx.lineWidth;
+    ctx.setLineDash(brush.dash.map((d) => d * lineWidth));
+  }
+}
+
+// Scale the line width of the next segment by the given pressure, and by
+// its direction for brushes with a nib
+function setSegmentLineWidth(
+  ctx: CanvasRenderingContext2D,
+  stroke: StrokeI,
+  size: RectI,
+  pressure: number | undefined,
+  from: PointI,
+  to: PointI,
+): void {
+  if (stroke.width) {
+    ctx.lineWidth = getSegmentLineWidth(stroke, size, pressure, from, to);
+  }
+}
+
+// Draw a stroke segment by segment so its width can follow the pressure
+// recorded at each point, or the direction of each segment
+function drawStrokeInSegments(ctx: CanvasRenderingContext2D, stroke: StrokeI, size: RectI): void {
+  if (stroke.points == null) return;
+
+  let dashOffset = 0;
+  for (let i = 0; i < stroke.points.length - 1; i++) {
+    const currentPoint = stroke.points[i];
+    const nextPoint = stroke.points[i + 1];
+
+    if (!(currentPoint.skipped || nextPoint.skipped)) {
+      const e = toPixels(currentPoint, size);
+      const n = toPixels(nextPoint, size);
+      ctx.beginPath();
+      ctx.moveTo(e.x, e.y);
+      ctx.lineTo(n.x, n.y);
+      setSegmentLineWidth(ctx, stroke, size, averagePressure(currentPoint.pressure, nextPoint.pressure), e, n);
+      ctx.lineDashOffset = dashOffset;
+      ctx.stroke();
+      dashOffset += Math.hypot(n.x - e.x, n.y - e.y);
+    }
+  }
+}
+
+// Draw each quadratic curve segment on its own, with a width following
+// the pressure at its control point, or the direction of the segment
+function drawQuadraticCurveStrokeInSegments(ctx: CanvasRenderingContext2D, stroke: StrokeI, size: RectI): void {
+  if (stroke.points == null) return;
+
+  let dashOffset = 0;
+  let destinationPt = toPixels(stroke.points[0], size);
+  for (let i = 0; i < stroke.points.length - 1; i++) {
+    const originPt = destinationPt;
+    const controlPt = toPixels(stroke.points[i], size);
+    destinationPt = toPixels(midPoint(stroke.points[i], stroke.points[i + 1]), size);
+
+    if (!(originPt.skipped || controlPt.skipped)) {
+      ctx.beginPath();
+      ctx.moveTo(originPt.x, originPt.y);
+      ctx.quadraticCurveTo(controlPt.x, controlPt.y, destinationPt.x, destinationPt.y);
+      setSegmentLineWidth(ctx, stroke, size, controlPt.pressure, originPt, destinationPt);
+      ctx.lineDashOffset = dashOffset;
+      ctx.stroke();
+      dashOffset += Math.hypot(destinationPt.x - originPt.x, destinationPt.y - originPt.y);
+    }
+  }
+}
+
+function toPixels(p: PointI, size: RectI): PointI {
+  return { x: p.x * size.width, y: p.y * size.height, skipped: p.skipped, pressure: p.pressure, time: p.time };
+}
+
+function hasPressure(stroke: StrokeI): boolean {
+  return (stroke.points || []).some((p) => p.pressure != null);
+}
+
+// Hardware without pressure support reports 0.5, which maps to the plain
+// line width. Lighter and firmer presses thin or thicken the line
+function pressureToLineWidthScale(pressure?: number): number {
+  if (pressure == null) {
+    return 1;
+  }
+  return 0.25 + 1.5 * Math.min(Math.max(pressure, 0), 1);
+}
@@ -0,0 +1,240 @@
+import { BRUSH_TYPES, BrushType } from './brushes';
+import type { DataI, LayerI, PointI, StrokeI, TextI } from './sketchpad';
+import type { ShapeI } from './shapes';
+
+// Version of the documents written by `toJSON`. Bump it, and add a
+// migration below, whenever the format changes
+export const SCHEMA_VERSION = 2;
+
+interface DocumentI {
+  [key: string]: unknown;
+}
+
+// Upgrade a document from the version at its index to the next version.
+// Documents saved before versioning have no version, and are treated as
+// version 0
+const MIGRATIONS: Array<(doc: DocumentI) => DocumentI> = [
+  // 0 -> 1: Strokes are kept in layers. Documents saved before layers
+  // existed have a single list of strokes, which becomes one layer
+  (doc) => {
+    if (doc.layers != null) {
+      return doc;
+    }
+    const migrated: DocumentI = { ...doc, layers: [{ strokes: doc.strokes == null ? [] : doc.strokes }] };
+    delete migrated.strokes;
+    return migrated;
+  },
+  // 1 -> 2: Strokes are sized by `width`, rather than `size`, and the
+  // aspect ratio is no longer saved; the canvas a drawing is loaded into
+  // sets it. Strokes, layers and points gained optional properties, such
+  // as IDs, text, brushes and shapes, that older documents do without
+  (doc) => {
+    const migrated: DocumentI = { ...doc };
+    delete migrated.aspectRatio;
+    if (Array.isArray(doc.layers)) {
+      migrated.layers = doc.layers.map((layer) =>
+        isDocument(layer) && Array.isArray(layer.strokes)
+          ? { ...layer, strokes: layer.strokes.map(renameSize) }
+          : layer,
+      );
+    }
+    return migrated;
+  },
+];
+
+// Rename the `size` of a stroke saved before version 2. Malformed strokes
+// are left for validation to reject
+function renameSize(stroke: unknown): unknown {
+  if (!isDocument(stroke) || !('size' in stroke)) {
+    return stroke;
+  }
+  const renamed: DocumentI = { ...stroke, width: stroke.size };
+  delete renamed.size;
+  return renamed;
+}
+
+const SHAPE_TYPES = ['line', 'rectangle', 'ellipse', 'arrow'];
+const LINE_CAPS = ['butt', 'round', 'square'];
+const LINE_JOINS = ['bevel', 'miter', 'round'];
+
+// Check a document saved by any version of the sketchpad, migrating it to
+// the current version. Throws an error describing the first problem found
+export function migrateData(data: unknown): DataI {
+  let doc = checkObject(data, 'data');
+  const version = doc.version == null ? 0 : checkNumber(doc.version, 'version');
+  if (version % 1 !== 0 || version < 0) {
+    throw invalid('version', 'must be a whole number');
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Invalid sketchpad data: version ${version} is newer than the supported version ${SCHEMA_VERSION}`);
+  }
+
+  for (let v = version; v < SCHEMA_VERSION; v++) {
+    doc = MIGRATIONS[v](doc);
+  }
+  return validateData(doc);
+}
+
+// Check a document in the current format, returning a copy holding only
+// the properties the sketchpad knows about
+function validateData(doc: DocumentI): DataI {
+  return withoutUndefined({
+    version: SCHEMA_VERSION,
+    layers: checkArray(doc.layers, 'layers').map((l, i) => validateLayer(l, `layers[${i}]`)),
+  });
+}
+
+function validateLayer(value: unknown, path: string): LayerI {
+  const layer = checkObject(value, path);
+  const opacity = optional(layer.opacity, `${path}.opacity`, checkNumber);
+  if (opacity != null && (opacity < 0 || opacity > 1)) {
+    throw invalid(`${path}.opacity`, 'must be between 0 and 1');
+  }
+
+  return withoutUndefined({
+    id: optional(layer.id, `${path}.id`, checkString),
+    name: optional(layer.name, `${path}.name`, checkString),
+    visible: optional(layer.visible, `${path}.visible`, checkBoolean),
+    locked: optional(layer.locked, `${path}.locked`, checkBoolean),
+    opacity: opacity,
+    strokes: optional(layer.strokes, `${path}.strokes`, checkArray)?.map((s, i) =>
+      validateStroke(s, `${path}.strokes[${i}]`),
+    ),
+    texts: optional(layer.texts, `${path}.texts`, checkArray)?.map((t, i) => validateText(t, `${path}.texts[${i}]`)),
+  });
+}
+
+function validateStroke(value: unknown, path: string): StrokeI {
+  const stroke = checkObject(value, path);
+  const width = optional(stroke.width, `${path}.width`, checkNumber);
+  if (width != null && width < 0) {
+    throw invalid(`${path}.width`, 'must not be negative');
+  }
+
+  return withoutUndefined({
+    id: optional(stroke.id, `${path}.id`, checkString),
+    author: optional(stroke.author, `${path}.author`, checkString),
+    points: optional(stroke.points, `${path}.points`, checkArray)?.map((p, i) =>
+      validatePoint(p, `${path}.points[${i}]`),
+    ),
+    width: width,
+    color: optional(stroke.color, `${path}.color`, checkString),
+    cap: optional(stroke.cap, `${path}.cap`, (v, p) => checkOneOf(v, p, LINE_CAPS)) as CanvasLineCap | undefined,
+    join: optional(stroke.join, `${path}.join`, (v, p) => checkOneOf(v, p, LINE_JOINS)) as CanvasLineJoin | undefined,
+    miterLimit: optional(stroke.miterLimit, `${path}.miterLimit`, checkNumber),
+    isInterpolationDone: optional(stroke.isInterpolationDone, `${path}.isInterpolationDone`, checkBoolean),
+    brush: optional(stroke.brush, `${path}.brush`, (v, p) => checkOneOf(v, p, BRUSH_TYPES)) as BrushType | undefined,
+    shape: optional(stroke.shape, `${path}.shape`, validateShape),
+  });
+}
+
+function validateText(value: unknown, path: string): TextI {
+  const text = checkObject(value, path);
+  const size = checkNumber(text.size, `${path}.size`);
+  if (size <= 0) {
+    throw invalid(`${path}.size`, 'must be positive');
+  }
+
+  return withoutUndefined({
+    id: optional(text.id, `${path}.id`, checkString),
+    author: optional(text.author, `${path}.author`, checkString),
+    text: checkString(text.text, `${path}.text`),
+    x: checkNumber(text.x, `${path}.x`),
+    y: checkNumber(text.y, `${path}.y`),
+    size: size,
+    font: optional(text.font, `${path}.font`, checkString),
+    color: optional(text.color, `${path}.color`, checkString),
+  });
+}
+
+function validatePoint(value: unknown, path: string): PointI {
+  const point = checkObject(value, path);
+  const pressure = optional(point.pressure, `${path}.pressure`, checkNumber);
+  if (pressure != null && (pressure < 0 || pressure > 1)) {
+    throw invalid(`${path}.pressure`, 'must be between 0 and 1');
+  }
+
+  return withoutUndefined({
+    x: checkNumber(point.x, `${path}.x`),
+    y: checkNumber(point.y, `${path}.y`),
+    skipped: optional(point.skipped, `${path}.skipped`, checkBoolean),
+    pressure: pressure,
+    time: optional(point.time, `${path}.time`, checkNumber),
+  });
+}
+
+function validateShape(value: unknown, path: string): ShapeI {
+  const shape = checkObject(value, path);
+  const start = checkObject(shape.start, `${path}.start`);
+  const end = checkObject(shape.end, `${path}.end`);
+  return {
+    type: checkOneOf(shape.type, `${path}.type`, SHAPE_TYPES) as ShapeI['type'],
+    start: { x: checkNumber(start.x, `${path}.start.x`), y: checkNumber(start.y, `${path}.start.y`) },
+    end: { x: checkNumber(end.x, `${path}.end.x`), y: checkNumber(end.y, `${path}.end.y`) },
+  };
+}
+
+// Leave out properties that weren't set, rather than keeping them as
+// undefined
+function withoutUndefined<T extends object>(obj: T): T {
+  Object.keys(obj).forEach((key) => {
+    if ((obj as DocumentI)[key] === undefined) {
+      delete (obj as DocumentI)[key];
+    }
+  });
+  return obj;
+}
+
+function optional<T>(value: unknown, path: string, check: (value: unknown, path: string) => T): T | undefined {
+  return value == null ? undefined : check(value, path);
+}
+
+function isDocument(value: unknown): value is DocumentI {
+  return typeof value === 'object' && value != null && !Array.isArray(value);
+}
+
+function checkObject(value: unknown, path: string): DocumentI {
+  if (!isDocument(value)) {
+    throw invalid(path, 'must be an object');
+  }
+  return value as DocumentI;
+}
+
+function checkArray(value: unknown, path: string): Array<unknown> {
+  if (!Array.isArray(value)) {
+    throw invalid(path, 'must be an array');
+  }
+  return value;
+}
+
+function checkNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    throw invalid(path, 'must be a number');
+  }
+  return value;
+}
+
+function checkString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw invalid(path, 'must be a string');
+  }
+  return value;
+}
+
+function checkBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw invalid(path, 'must be a boolean');
+  }
+  return value;
+}
+
+function checkOneOf(value: unknown, path: string, options: Array<string>): string {
+  if (typeof value !== 'string' || options.indexOf(value) === -1) {
+    throw invalid(path, `must be one of ${options.map((o) => `"${o}"`).join(', ')}`);
+  }
+  return value;
+}
+
+function invalid(path: string, problem: string): Error {
+  return new Error(`Invalid sketchpad data: ${path} ${problem}`);
+}
@@ -0,0 +1,167 @@
+import type { PointI, RectI, StrokeI } from './sketchpad';
+
+// Distance in pixels within which a handle can be grabbed
+export const HANDLE_SIZE = 8;
+// Distance in pixels between the top of the selection and its rotate handle
+const ROTATE_HANDLE_OFFSET = 24;
+
+export type SelectionTool = 'select' | 'lasso';
+
+export type HandleType = 'nw' | 'ne' | 'se' | 'sw' | 'rotate';
+
+export interface HandleI {
+  readonly type: HandleType;
+  readonly x: number;
+  readonly y: number;
+}
+
+// An axis-aligned rectangle in pixels
+export interface BoundsI {
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+// A 2D affine transform, mapping (x, y) to (a·x + c·y + e, b·x + d·y + f)
+export interface MatrixI {
+  readonly a: number;
+  readonly b: number;
+  readonly c: number;
+  readonly d: number;
+  readonly e: number;
+  readonly f: number;
+}
+
+interface PixelPointI {
+  x: number;
+  y: number;
+}
+
+export function isSelectionTool(tool: string): tool is SelectionTool {
+  return tool === 'select' || tool === 'lasso';
+}
+
+export function translation(dx: number, dy: number): MatrixI {
+  return { a: 1, b: 0, c: 0, d: 1, e: dx, f: dy };
+}
+
+// Scale about a fixed origin
+export function scaling(sx: number, sy: number, origin: PixelPointI): MatrixI {
+  return { a: sx, b: 0, c: 0, d: sy, e: origin.x * (1 - sx), f: origin.y * (1 - sy) };
+}
+
+// Rotate clockwise, in screen coordinates, about a fixed origin
+export function rotation(angle: number, origin: PixelPointI): MatrixI {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    a: cos,
+    b: sin,
+    c: -sin,
+    d: cos,
+    e: origin.x - origin.x * cos + origin.y * sin,
+    f: origin.y - origin.x * sin - origin.y * cos,
+  };
+}
+
+export function applyMatrix(m: MatrixI, p: PixelPointI): PixelPointI {
+  return { x: m.a * p.x + m.c * p.y + m.e, y: m.b * p.x + m.d * p.y + m.f };
+}
+
+export function isIdentity(m: MatrixI): boolean {
+  return m.a === 1 && m.b === 0 && m.c === 0 && m.d === 1 && m.e === 0 && m.f === 0;
+}
+
+// Transform a stroke's points, given relative to the canvas `size`. The
+// line width follows the change in area, and shapes stay shapes as long
+// as they aren't rotated
+export function transformStroke(stroke: StrokeI, m: MatrixI, size: RectI): StrokeI {
+  const transform = (p: PointI) => {
+    const t = applyMatrix(m, { x: p.x * size.width, y: p.y * size.height });
+    return { x: t.x / size.width, y: t.y / size.height };
+  };
+
+  return {
+    ...stroke,
+    points: stroke.points?.map((p) => ({ ...transform(p), skipped: p.skipped, pressure: p.pressure, time: p.time })),
+    width: stroke.width != null ? stroke.width * Math.sqrt(Math.abs(m.a * m.d - m.b * m.c)) : undefined,
+    shape:
+      stroke.shape && m.b === 0 && m.c === 0
+        ? { type: stroke.shape.type, start: transform(stroke.shape.start), end: transform(stroke.shape.end) }
+        : undefined,
+  };
+}
+
+// Get the pixel bounds of the points of strokes that haven't been erased
+export function getBounds(strokes: Array<StrokeI>, size: RectI): BoundsI | undefined {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  strokes.forEach((stroke) => {
+    (stroke.points || []).forEach((p) => {
+      if (!p.skipped) {
+        minX = Math.min(minX, p.x * size.width);
+        minY = Math.min(minY, p.y * size.height);
+        maxX = Math.max(maxX, p.x * size.width);
+        maxY = Math.max(maxY, p.y * size.height);
+      }
+    });
+  });
+
+  if (minX === Infinity) {
+    return undefined;
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+export function getHandles(bounds: BoundsI): Array<HandleI> {
+  const right = bounds.x + bounds.width;
+  const bottom = bounds.y + bounds.height;
+  return [
+    { type: 'nw', x: bounds.x, y: bounds.y },
+    { type: 'ne', x: right, y: bounds.y },
+    { type: 'se', x: right, y: bottom },
+    { type: 'sw', x: bounds.x, y: bottom },
+    { type: 'rotate', x: bounds.x + bounds.width / 2, y: bounds.y - ROTATE_HANDLE_OFFSET },
+  ];
+}
+
+// Get the handle at a point, if any
+export function getHandleAt(bounds: BoundsI, p: PixelPointI): HandleI | undefined {
+  const handles = getHandles(bounds);
+  for (let i = 0; i < handles.length; i++) {
+    if (Math.abs(handles[i].x - p.x) <= HANDLE_SIZE && Math.abs(handles[i].y - p.y) <= HANDLE_SIZE) {
+      return handles[i];
+    }
+  }
+  return undefined;
+}
+
+// Get the corner opposite a scale handle, which stays put while scaling
+export function getOppositeCorner(bounds: BoundsI, handle: HandleType): PixelPointI {
+  const right = bounds.x + bounds.width;
+  const bottom = bounds.y + bounds.height;
+  return {
+    x: handle === 'nw' || handle === 'sw' ? right : bounds.x,
+    y: handle === 'nw' || handle === 'ne' ? bottom : bounds.y,
+  };
+}
+
+export function isInBounds(bounds: BoundsI, p: PixelPointI): boolean {
+  return p.x >= bounds.x && p.x <= bounds.x + bounds.width && p.y >= bounds.y && p.y <= bounds.y + bounds.height;
+}
+
+// Even-odd test for whether a point lies inside a closed polygon
+export function isInPolygon(polygon: Array<PixelPointI>, p: PixelPointI): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
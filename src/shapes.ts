@@ -0,0 +1,134 @@
+import type { PointI, RectI } from './sketchpad';
+
+export type ShapeType = 'line' | 'rectangle' | 'ellipse' | 'arrow';
+
+// A shape defined by the corners of its bounding box, or the ends of a
+// line or arrow, relative to the size of the canvas
+export interface ShapeI {
+  readonly type: ShapeType;
+  readonly start: PointI;
+  readonly end: PointI;
+}
+
+// Pixels between the points generated along an outline, close enough
+// together for the eraser to hit any part of the shape
+const POINT_INTERVAL = 2;
+const ARROW_HEAD_ANGLE = Math.PI / 6;
+const ARROW_HEAD_LENGTH = 0.25; // Relative to the length of the arrow
+
+interface PixelPointI {
+  x: number;
+  y: number;
+}
+
+// Generate the points outlining a shape. Separate parts of a shape, such
+// as an arrow's head, are split by a skipped point
+export function shapeToPoints(shape: ShapeI, size: RectI): Array<PointI> {
+  const start = { x: shape.start.x * size.width, y: shape.start.y * size.height };
+  const end = { x: shape.end.x * size.width, y: shape.end.y * size.height };
+  let parts: Array<Array<PixelPointI>>;
+
+  switch (shape.type) {
+    case 'line':
+      parts = [[start, end]];
+      break;
+    case 'rectangle':
+      parts = [[start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }, start]];
+      break;
+    case 'ellipse':
+      parts = [ellipseOutline(start, end)];
+      break;
+    case 'arrow':
+      parts = [[start, end], arrowHead(start, end)];
+      break;
+    default:
+      throw new Error(`Unknown shape type "${shape.type}"`);
+  }
+
+  const points: Array<PointI> = [];
+  parts.forEach((part, i) => {
+    if (i > 0) {
+      points.push({ x: part[0].x / size.width, y: part[0].y / size.height, skipped: true });
+    }
+    densify(part).forEach((p) => points.push({ x: p.x / size.width, y: p.y / size.height, skipped: false }));
+  });
+  return points;
+}
+
+// Constrain rectangles and ellipses to squares and circles, and lines and
+// arrows to multiples of 45°
+export function constrainShape(shape: ShapeI, size: RectI): ShapeI {
+  const dx = (shape.end.x - shape.start.x) * size.width;
+  const dy = (shape.end.y - shape.start.y) * size.height;
+  let x: number;
+  let y: number;
+
+  if (shape.type === 'rectangle' || shape.type === 'ellipse') {
+    const side = Math.max(Math.abs(dx), Math.abs(dy));
+    x = dx < 0 ? -side : side;
+    y = dy < 0 ? -side : side;
+  } else {
+    const step = Math.PI / 4;
+    const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+    const length = Math.hypot(dx, dy);
+    x = Math.cos(angle) * length;
+    y = Math.sin(angle) * length;
+  }
+
+  return {
+    type: shape.type,
+    start: shape.start,
+    end: { x: shape.start.x + x / size.width, y: shape.start.y + y / size.height },
+  };
+}
+
+// Whether a shape has no size, such as one from a click without a drag
+export function isEmptyShape(shape: ShapeI): boolean {
+  return shape.start.x === shape.end.x && shape.start.y === shape.end.y;
+}
+
+function ellipseOutline(start: PixelPointI, end: PixelPointI): Array<PixelPointI> {
+  const cx = (start.x + end.x) / 2;
+  const cy = (start.y + end.y) / 2;
+  const rx = Math.abs(end.x - start.x) / 2;
+  const ry = Math.abs(end.y - start.y) / 2;
+  const circumference = 2 * Math.PI * Math.sqrt((rx * rx + ry * ry) / 2);
+  const segments = Math.max(16, Math.ceil(circumference / POINT_INTERVAL));
+
+  const points: Array<PixelPointI> = [];
+  for (let i = 0; i <= segments; i++) {
+    const angle = (i / segments) * 2 * Math.PI;
+    points.push({ x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) });
+  }
+  return points;
+}
+
+function arrowHead(start: PixelPointI, end: PixelPointI): Array<PixelPointI> {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const length = Math.hypot(end.x - start.x, end.y - start.y) * ARROW_HEAD_LENGTH;
+  return [
+    {
+      x: end.x - length * Math.cos(angle - ARROW_HEAD_ANGLE),
+      y: end.y - length * Math.sin(angle - ARROW_HEAD_ANGLE),
+    },
+    end,
+    {
+      x: end.x - length * Math.cos(angle + ARROW_HEAD_ANGLE),
+      y: end.y - length * Math.sin(angle + ARROW_HEAD_ANGLE),
+    },
+  ];
+}
+
+// Add points along each segment so none are more than POINT_INTERVAL apart
+function densify(points: Array<PixelPointI>): Array<PixelPointI> {
+  const result: Array<PixelPointI> = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / POINT_INTERVAL));
+    for (let step = 1; step <= steps; step++) {
+      result.push({ x: from.x + ((to.x - from.x) * step) / steps, y: from.y + ((to.y - from.y) * step) / steps });
+    }
+  }
+  return result;
+}
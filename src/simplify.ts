@@ -0,0 +1,106 @@
+import type { PointI, RectI } from './sketchpad';
+
+// Distance, relative to the width of the canvas, that simplified strokes
+// stray from the original by at most: a pixel on a 1000 pixel wide canvas
+export const DEFAULT_SIMPLIFY_TOLERANCE = 0.001;
+// Change in pressure, from 0 to 1, treated like straying by the whole
+// tolerance, so that strokes keep the points where their width changes
+const PRESSURE_TOLERANCE = 0.05;
+// Pixels between the points added back to a simplified stroke, close
+// enough together for the eraser to hit any part of the stroke
+const POINT_INTERVAL = 2;
+
+// Drop the points of a stroke lying within `tolerance` of the line through
+// the points kept either side of them, using the Ramer–Douglas–Peucker
+// algorithm. The ends of every run of points between erased points are
+// kept, along with the erased points themselves
+export function simplifyPoints(points: Array<PointI>, tolerance: number, size: RectI): Array<PointI> {
+  const keep = points.map(
+    (p, i) => i === 0 || i === points.length - 1 || !!p.skipped || !!points[i - 1].skipped || !!points[i + 1].skipped,
+  );
+
+  let start = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (keep[i]) {
+      keepDeviatingPoints(points, start, i, tolerance * size.width, size, keep);
+      start = i;
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+// Add points back along the straight segments of a stroke, so that no two
+// points are more than POINT_INTERVAL pixels apart
+export function densifyPoints(points: Array<PointI>, size: RectI): Array<PointI> {
+  const result: Array<PointI> = points.slice(0, 1);
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const distance = Math.hypot((to.x - from.x) * size.width, (to.y - from.y) * size.height);
+    const steps = from.skipped || to.skipped ? 1 : Math.max(1, Math.ceil(distance / POINT_INTERVAL));
+    for (let step = 1; step < steps; step++) {
+      const t = step / steps;
+      result.push({
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t,
+        skipped: false,
+        pressure: interpolate(from.pressure, to.pressure, t),
+        time: interpolate(from.time, to.time, t),
+      });
+    }
+    result.push(to);
+  }
+  return result;
+}
+
+// Mark the points between `first` and `last` that must be kept for the
+// simplified stroke to stay within `tolerance` pixels of the original
+function keepDeviatingPoints(
+  points: Array<PointI>,
+  first: number,
+  last: number,
+  tolerance: number,
+  size: RectI,
+  keep: Array<boolean>,
+): void {
+  const ranges: Array<[number, number]> = [[first, last]];
+  while (ranges.length > 0) {
+    const [start, end] = ranges.pop() as [number, number];
+    let furthest = -1;
+    let maxDeviation = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const deviation = getDeviation(points[i], points[start], points[end], tolerance, size);
+      if (deviation > maxDeviation) {
+        furthest = i;
+        maxDeviation = deviation;
+      }
+    }
+
+    if (furthest !== -1) {
+      keep[furthest] = true;
+      ranges.push([start, furthest], [furthest, end]);
+    }
+  }
+}
+
+// Get how far, in pixels, a point is from the segment between two others,
+// counting a change in pressure along the segment as distance too
+function getDeviation(p: PointI, start: PointI, end: PointI, tolerance: number, size: RectI): number {
+  const dx = (end.x - start.x) * size.width;
+  const dy = (end.y - start.y) * size.height;
+  const px = (p.x - start.x) * size.width;
+  const py = (p.y - start.y) * size.height;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.min(Math.max((px * dx + py * dy) / lengthSquared, 0), 1);
+  const distance = Math.hypot(px - dx * t, py - dy * t);
+
+  const pressure = interpolate(start.pressure, end.pressure, t);
+  if (p.pressure == null || pressure == null) {
+    return distance;
+  }
+  return Math.max(distance, (Math.abs(p.pressure - pressure) / PRESSURE_TOLERANCE) * tolerance);
+}
+
+function interpolate(from: number | undefined, to: number | undefined, t: number): number | undefined {
+  return from == null || to == null ? undefined : from + (to - from) * t;
+}
@@ -1,22 +1,117 @@
+import { BackgroundI, drawBackgroundImage, drawTemplate } from './background';
+import { BrushType } from './brushes';
+import { compareOperations, OperationI, StrokePlacementI, TransportI } from './collaboration';
+import { EventEmitter, ListenerFn } from './events';
+import { CommandI, CompositeCommand, History } from './history';
+import { layersToPDF } from './pdf';
+import { buildTimeline, getPointsDrawn, TimelineEntryI, TimelineI } from './playback';
+import { drawQuadraticCurveStroke, drawStroke, getInkReach, midPoint, renderDrawing, RenderOptionsI } from './render';
+import { migrateData, SCHEMA_VERSION } from './schema';
+import {
+  BoundsI,
+  getBounds,
+  getHandleAt,
+  getHandles,
+  getOppositeCorner,
+  HANDLE_SIZE,
+  HandleI,
+  HandleType,
+  isIdentity,
+  isInBounds,
+  isInPolygon,
+  isSelectionTool,
+  MatrixI,
+  rotation,
+  scaling,
+  SelectionTool,
+  transformStroke,
+  translation,
+} from './selection';
+import { constrainShape, isEmptyShape, ShapeI, shapeToPoints, ShapeType } from './shapes';
+import { DEFAULT_SIMPLIFY_TOLERANCE, densifyPoints, simplifyPoints } from './simplify';
+import { layersToSVG, svgToData } from './svg';
+import { DEFAULT_FONT, DEFAULT_TEXT_COLOR, drawText, getFont, getTextBounds, LINE_HEIGHT } from './text';
+
 export default class Sketchpad {
   readonly canvas: HTMLCanvasElement;
 
   private readonly ctx: CanvasRenderingContext2D;
-  private sketching = false;
+  // Committed strokes are drawn once to this offscreen canvas so that only
+  // the strokes being drawn need to be repainted on each input event
+  private readonly cache: HTMLCanvasElement;
+  private readonly cacheCtx: CanvasRenderingContext2D;
+  private isCacheValid = false;
+  // Translucent layers are drawn here first so their strokes don't build
+  // up opacity where they overlap
+  private readonly layerCanvas: HTMLCanvasElement;
+  private readonly layerCtx: CanvasRenderingContext2D;
+  private activePointers: { [id: number]: ActivePointerI } = {};
+  private gesturePointers: { [id: number]: boolean } = {};
+  private rejectedPointers: { [id: number]: boolean } = {}; // Palms, ignored until they're lifted
+  // Where each finger zooming or panning the view grabbed the drawing
+  private gestureAnchors: { [id: number]: GestureAnchorI } = {};
+  private view: ViewI = { zoom: 1, x: 0, y: 0 };
+  // Size of the canvas on the page. Its backing store is `pixelRatio`
+  // times larger
+  private width = 0;
+  private height = 0;
+  private pixelRatio = 1;
+  private readonly container: HTMLElement;
+  private stopAutoResize?: () => void;
+  private stopWatchingPixelRatio?: () => void; // Replaced whenever the pixel ratio changes
+  private autoResizeTimer?: number;
+  private isSpaceDown = false;
   private isEraserActive = false;
-  private _strokes: Array<Stroke> = []; // v2.0 - Rename to strokes
-  private undoneStrokes: Array<Stroke> = [];
+  private tool: Tool = 'pen';
+  private readonly _layers: Array<Layer> = []; // Bottom layer first
+  private activeLayer: Layer;
+  private nextLayerId = 1;
+  private readonly history = new History();
+  private readonly events = new EventEmitter<SketchpadEventsI>();
+  private erasedStrokes: { [strokeId: string]: ErasedStrokeI } = {};
+  private selection: Array<Stroke> = [];
+  private selectionGesture?: SelectionGestureI;
+  private authorId = createId();
+  private clock = 0; // Lamport timestamp of the latest operation
+  private readonly _operations: Array<OperationI> = []; // Applied operations, oldest first
+  private removedBy: { [strokeId: string]: OperationI } = {};
+  private rejectedOperations: { [id: string]: boolean } = {};
+  private syncedStrokes: { [strokeId: string]: PlacementI } = {}; // As of the latest operation
+  private transport?: TransportI;
+  private playback?: PlaybackI;
+  private textEditor?: TextEditorI;
+  private readonly removeListeners: Array<() => void> = []; // Undo every `addListener`
+  private isDestroyed = false;
 
   // Options
   private backgroundColor?: string;
+  private background: BackgroundI = {};
+  private backgroundImage?: CanvasImageSource;
   private readOnly = false;
   private aspectRatio = 1; // v2.0 - Remove; rely on canvas as source-of-truth
+  // Line, eraser and text sizes are kept in pixels at `sizeWidth`, the
+  // width the canvas was created with, and scaled to the canvas as it is
+  // resized, so repeated resizing doesn't change them
+  private sizeWidth = 0;
   private lineWidth = 5;
   private lineColor = '#000';
   private lineCap: CanvasLineCap = 'round';
   private lineJoin: CanvasLineJoin = 'round';
   private lineMiterLimit = 10;
+  private brush: BrushType = 'pen';
+  private textSize = 16;
+  private textFont = DEFAULT_FONT;
+  private textColor = DEFAULT_TEXT_COLOR;
   private isInterpolationDone = false;
+  private stabilizer = 0;
+  private reservePinchGestures = false;
+  private viewportGestures = false;
+  private inputPolicy: InputPolicy = 'any';
+  private palmRejection = false;
+  private fingerScrolling = false;
+  private fixedPixelRatio?: number; // Follows the screen when unset
+  private recordTiming = false;
+  private simplifyTolerance = 0;
   private eraserSize = 20;
   private onDrawEnd?: () => void; // v2.0 - Remove
   circleCursor: HTMLDivElement | undefined;
@@ -26,44 +121,85 @@ export default class Sketchpad {
     if (el == null) {
       throw new Error('Must pass in a container element');
     }
+
+    this.container = el;
+    this.activeLayer = this.createLayer(undefined, DEFAULT_LAYER_ID);
+    this._layers.push(this.activeLayer);
+
     if (opts != null) {
       this.setOptions(opts);
     }
 
     this.canvas = document.createElement('canvas');
     this.ctx = this.canvas.getContext('2d') as CanvasRenderingContext2D;
+    this.cache = document.createElement('canvas');
+    this.cacheCtx = this.cache.getContext('2d') as CanvasRenderingContext2D;
+    this.layerCanvas = document.createElement('canvas');
+    this.layerCtx = this.layerCanvas.getContext('2d') as CanvasRenderingContext2D;
 
     const width = opts?.width || el.clientWidth;
     const height = opts?.height || width * this.aspectRatio;
+    if (!opts?.aspectRatio && width > 0 && height > 0) {
+      // Resizing keeps the proportions of a canvas given its size alone
+      this.aspectRatio = height / width;
+    }
+    this.sizeWidth = width;
+    this.pixelRatio = this.fixedPixelRatio ?? getDevicePixelRatio();
     this.setCanvasSize(width, height);
+    this.watchPixelRatio();
+    if (opts?.autoResize) {
+      this.setAutoResize(opts.autoResize);
+    }
 
     el.appendChild(this.canvas);
 
-    if (this._strokes.length > 0) {
-      this.redraw();
-    }
+    this.redraw();
 
+    this.syncedStrokes = this.getCommittedPlacements();
+    this.history.onChange(() => this.publishOperation());
     this.listen();
   }
 
-  // v2.0 - Remove; rename `_strokes`
+  // Draw saved data to any canvas context, such as one made by node-canvas
+  // to render thumbnails on a server, without a sketchpad or a DOM
+  static render(ctx: CanvasRenderingContext2D, data: DataI, opts: RenderOptionsI): void {
+    renderDrawing(ctx, data, opts);
+  }
+
+  // v2.0 - Remove; use `layers`
   get strokes(): Array<StrokeI> {
-    return this._strokes.map(function (stroke) {
+    return this.getAllStrokes().map(function (stroke) {
       return {
         points: stroke.points,
-        size: stroke.width,
+        width: stroke.width,
         color: stroke.color,
         cap: stroke.cap,
         join: stroke.join,
         miterLimit: stroke.miterLimit,
         isInterpolationDone: stroke.isInterpolationDone,
+        brush: stroke.brush,
+        shape: stroke.shape,
+        id: stroke.id,
+        author: stroke.author,
       };
     });
   }
 
   // v2.0 - Remove
   get undos(): Array<StrokeI> {
-    return this.undoneStrokes.map((s) => s.toObj());
+    return this.history.undoneCommands
+      .filter((c) => c instanceof AddStrokeCommand)
+      .map((c) => (c as AddStrokeCommand).stroke.toObj());
+  }
+
+  // Every layer with its strokes, bottom layer first
+  get layers(): Array<LayerI> {
+    return this._layers.map((l) => l.toObj());
+  }
+
+  // Every operation applied to the drawing, local and remote, oldest first
+  get operations(): Array<OperationI> {
+    return this._operations.slice();
   }
 
   // v2.0 - Remove
@@ -71,16 +207,18 @@ export default class Sketchpad {
     return {
       backgroundColor: this.backgroundColor,
       readOnly: this.readOnly,
-      width: this.canvas.width,
-      height: this.canvas.height,
-      aspectRatio: this.canvas.width / this.canvas.height,
+      width: this.width,
+      height: this.height,
+      aspectRatio: this.width / this.height,
       line: {
-        size: this.lineWidth,
+        size: this.scaleSize(this.lineWidth),
         color: this.lineColor,
         cap: this.lineCap,
         join: this.lineJoin,
         miterLimit: this.lineMiterLimit,
         isInterpolationDone: this.isInterpolationDone,
+        brush: this.brush,
+        stabilizer: this.stabilizer,
       },
     };
   }
@@ -89,47 +227,135 @@ export default class Sketchpad {
   // other sketchpads or stored on a server
   toJSON(): DataI {
     return {
-      aspectRatio: this.canvas.width / this.canvas.height,
-      strokes: this.strokes,
+      version: SCHEMA_VERSION,
+      layers: this.layers,
     };
   }
 
-  // Load a json object into the sketchpad
+  // Load a json object into the sketchpad. Data saved by older versions
+  // is migrated, and malformed data is rejected with an error before
+  // anything is changed
   loadJSON(data: DataI): void {
-    const strokeObjs = data.strokes || [];
-    this._strokes = strokeObjs.map((s) => Stroke.fromObj(s));
+    const layers = this.dataToLayers(data);
+    const before = this.getAllStrokes();
+    this.resetLayers(layers);
+    this.invalidateCache();
     this.redraw();
+    this.events.emit('load', this.getStrokeChange(before));
+  }
+
+  // Converts to image File. The image is drawn off the screen from the
+  // saved drawing, so it has nothing of the view, the selection or the
+  // eraser. Without the background, only the drawing is kept, on a
+  // transparent image. Images have a pixel for each pixel of the canvas
+  // unless given another pixel ratio
+  toDataURL(type: string, opts?: ImageOptionsI): string {
+    return this.renderImage(opts).toDataURL(type, opts?.quality);
   }
 
-  // Converts to image File
-  toDataURL(type: string): string {
-    return this.canvas.toDataURL(type);
+  // Converts to an image Blob, drawn like `toDataURL` draws it
+  toBlob(type = 'image/png', opts?: ImageOptionsI): Promise<Blob> {
+    const canvas = this.renderImage(opts);
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error(`Could not encode the image as ${type}`))),
+        type,
+        opts?.quality,
+      );
+    });
+  }
+
+  // Convert the sketchpad to a standalone SVG document that stays crisp
+  // at any zoom level
+  toSVG(): string {
+    return layersToSVG(
+      this.layers.filter((l) => l.visible),
+      this.getCanvasSize(),
+      this.backgroundColor,
+    );
+  }
+
+  // Convert the sketchpad to a single page PDF document the size of the
+  // canvas, with strokes and text written as vectors. The page is filled
+  // with the background color unless asked not to
+  toPDF(opts?: PDFOptionsI): Uint8Array {
+    return layersToPDF(
+      this.layers.filter((l) => l.visible),
+      this.getCanvasSize(),
+      opts?.background !== false ? this.backgroundColor : undefined,
+    );
+  }
+
+  // Load an SVG document, as produced by `toSVG`, into the sketchpad
+  loadSVG(svg: string): void {
+    this.loadJSON(svgToData(svg));
   }
 
-  // Set the size of canvas
+  // Set the size of canvas. Its backing store has more pixels on high
+  // density screens, so the drawing stays sharp
   setCanvasSize(width: number, height: number): void {
-    this.canvas.setAttribute('width', width.toString());
-    this.canvas.setAttribute('height', height.toString());
+    this.width = width;
+    this.height = height;
+    [this.canvas, this.cache, this.layerCanvas].forEach((canvas) => {
+      canvas.setAttribute('width', Math.round(width * this.pixelRatio).toString());
+      canvas.setAttribute('height', Math.round(height * this.pixelRatio).toString());
+    });
     this.canvas.style.width = width + 'px';
     this.canvas.style.height = height + 'px';
+    this.invalidateCache();
   }
 
   // Get the size of the canvas
   getCanvasSize(): RectI {
     return {
-      width: this.canvas.width,
-      height: this.canvas.height,
+      width: this.width,
+      height: this.height,
     };
   }
 
+  // Set how many backing store pixels the canvas has for each of its
+  // pixels. Unset, it follows the `devicePixelRatio` of the screen
+  setPixelRatio(ratio?: number): void {
+    if (ratio != null && ratio <= 0) {
+      throw new Error('Pixel ratio must be positive');
+    }
+    this.fixedPixelRatio = ratio;
+    this.updatePixelRatio();
+  }
+
+  getPixelRatio(): number {
+    return this.pixelRatio;
+  }
+
+  // Remove the canvas, and everything else the sketchpad added to the
+  // page, and stop listening for events. Every method of a destroyed
+  // sketchpad throws
+  destroy(): void {
+    if (this.isDestroyed) {
+      return;
+    }
+
+    this.cancelTextEditing();
+    this.eraserModeIndicatorOff();
+    this.setAutoResize();
+    this.stopWatchingPixelRatio?.();
+    this.disconnect();
+    this.playback = undefined;
+    this.backgroundImage = undefined;
+    this.removeListeners.splice(0).forEach((remove) => remove());
+    this.canvas.remove();
+    this.isDestroyed = true;
+    disableSketchpad(this);
+  }
+
   // Set the line width
   setLineWidth(width: number): void {
-    this.lineWidth = width;
+    this.lineWidth = this.unscaleSize(width);
   }
 
   // Set the eraser size
   setEraserSize(size: number): void {
-    this.eraserSize = size;
+    this.eraserSize = this.unscaleSize(size);
     this.updateEraserIndicatorSize();
   }
 
@@ -137,9 +363,21 @@ export default class Sketchpad {
     this.isEraserActive = !this.isEraserActive;
   }
 
+  // Set whether new strokes are drawn freehand or as a shape, or whether
+  // strokes are selected with a box or a lasso
+  setTool(tool: Tool): void {
+    this.tool = tool;
+    if (!isSelectionTool(tool)) {
+      this.clearSelection();
+    }
+    if (tool !== 'text') {
+      this.finishTextEditing();
+    }
+  }
+
   // Set the line width
   setLineSize(size: number): void {
-    this.lineWidth = size;
+    this.lineWidth = this.unscaleSize(size);
   }
 
   // Set the line color
@@ -147,77 +385,630 @@ export default class Sketchpad {
     this.lineColor = color;
   }
 
+  // Set how many pixels the pen trails behind the pointer while drawing,
+  // steadying shaky strokes. 0 turns the stabilizer off
+  setStabilizer(radius: number): void {
+    this.setOptions({ line: { stabilizer: radius } });
+  }
+
+  // Set the image or paper template drawn under the drawing, replacing
+  // the previous one. The background color is kept
+  setBackground(background: BackgroundI): void {
+    this.setOptions({ background: background });
+    this.invalidateCache();
+    this.redraw();
+  }
+
+  // Set the brush new strokes are drawn with
+  setBrush(brush: BrushType): void {
+    this.brush = brush;
+  }
+
+  // Set the font, size in pixels and color of new text
+  setTextOptions(opts: TextOptionsI): void {
+    this.setOptions({ text: opts });
+  }
+
   // Set whether or not new strokes can be drawn on the canvas
   setReadOnly(readOnly: boolean): void {
     this.readOnly = readOnly;
   }
 
-  // Undo the last stroke
+  // Set which pointers draw: any of them, only pens, or pens and mice.
+  // Strokes already being drawn are finished
+  setInputPolicy(policy: InputPolicy): void {
+    this.inputPolicy = policy;
+    this.updateTouchAction();
+  }
+
+  // Set whether touch strokes are rolled back when a larger contact, such
+  // as a palm coming to rest, lands just after they start
+  setPalmRejection(palmRejection: boolean): void {
+    this.palmRejection = palmRejection;
+  }
+
+  // Set whether fingers scroll the page when the input policy leaves them
+  // out of drawing
+  setFingerScrolling(fingerScrolling: boolean): void {
+    this.fingerScrolling = fingerScrolling;
+    this.updateTouchAction();
+  }
+
+  // Undo the last change: a stroke, an erase, a clear or a load
   undo(): void {
-    if (this._strokes.length === 0) {
+    if (!this.history.canUndo()) {
       return;
     }
 
-    this.undoneStrokes.push(this._strokes.pop() as Stroke);
+    const before = this.getAllStrokes();
+    this.history.undo();
+    this.ensureActiveLayer();
+    this.invalidateCache();
     this.redraw();
+    this.events.emit('undo', this.getStrokeChange(before));
   }
 
-  // Redo the last undone stroke
+  // Redo the last undone change
   redo(): void {
-    if (this.undoneStrokes.length === 0) {
+    if (!this.history.canRedo()) {
       return;
     }
 
-    this._strokes.push(this.undoneStrokes.pop() as Stroke);
+    const before = this.getAllStrokes();
+    this.history.redo();
+    this.ensureActiveLayer();
+    this.invalidateCache();
     this.redraw();
+    this.events.emit('redo', this.getStrokeChange(before));
+  }
+
+  // Subscribe to a sketchpad event
+  on<K extends keyof SketchpadEventsI>(name: K, listener: ListenerFn<SketchpadEventsI[K]>): void {
+    this.events.on(name, listener);
+  }
+
+  // Unsubscribe a listener added with `on`
+  off<K extends keyof SketchpadEventsI>(name: K, listener: ListenerFn<SketchpadEventsI[K]>): void {
+    this.events.off(name, listener);
+  }
+
+  // Whether there is a change that can be undone
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  // Whether there is an undone change that can be redone
+  canRedo(): boolean {
+    return this.history.canRedo();
   }
 
-  // Clear the sketchpad
+  // Set how many changes can be undone
+  setHistoryDepth(depth: number): void {
+    this.history.setDepth(depth);
+  }
+
+  // Run a function, grouping every change it makes into a single undo step
+  transaction(fn: () => void): void {
+    this.history.begin();
+    try {
+      fn();
+    } finally {
+      this.history.end();
+    }
+  }
+
+  // Clear every layer that isn't locked
   clear(): void {
-    this.undoneStrokes = [];
-    this._strokes = [];
+    const before = this.getAllStrokes();
+    this.transaction(() => {
+      this._layers.forEach((layer) => {
+        if (!layer.locked) {
+          this.resetStrokes(layer, []);
+          this.resetTexts(layer, []);
+        }
+      });
+    });
+    this.redraw();
+    this.events.emit('clear', this.getStrokeChange(before));
+  }
+
+  // Add an empty layer above every other layer and make it the active
+  // one. Returns the new layer's ID
+  addLayer(name?: string): string {
+    const layer = this.createLayer(name);
+    this.resetLayers(this._layers.concat([layer]));
+    this.activeLayer = layer;
+    return layer.id;
+  }
+
+  // Remove a layer along with its strokes
+  removeLayer(id: string): void {
+    const layer = this.getLayer(id);
+    if (this._layers.length === 1) {
+      throw new Error('Cannot remove the last layer');
+    }
+
+    this.resetLayers(this._layers.filter((l) => l !== layer));
+    this.invalidateCache();
+    this.redraw();
+  }
+
+  // Move a layer to a new position, 0 being the bottom layer
+  moveLayer(id: string, index: number): void {
+    const layer = this.getLayer(id);
+    if (index < 0 || index >= this._layers.length) {
+      throw new Error(`Layer index ${index} is out of range`);
+    }
+
+    const layers = this._layers.filter((l) => l !== layer);
+    layers.splice(index, 0, layer);
+    this.resetLayers(layers);
+    this.invalidateCache();
+    this.redraw();
+  }
+
+  renameLayer(id: string, name: string): void {
+    this.getLayer(id).name = name;
+  }
+
+  // Show or hide a layer. Hidden layers can't be drawn on or erased
+  setLayerVisible(id: string, visible: boolean): void {
+    this.getLayer(id).visible = visible;
+    this.invalidateCache();
+    this.redraw();
+  }
+
+  // Lock a layer to protect its strokes from drawing, erasing and clearing
+  setLayerLocked(id: string, locked: boolean): void {
+    this.getLayer(id).locked = locked;
+  }
+
+  // Set the opacity of a layer, from 0 to 1
+  setLayerOpacity(id: string, opacity: number): void {
+    if (opacity < 0 || opacity > 1) {
+      throw new Error('Layer opacity must be between 0 and 1');
+    }
+    this.getLayer(id).opacity = opacity;
+    this.invalidateCache();
+    this.redraw();
+  }
+
+  // Set the layer new strokes are drawn on
+  setActiveLayer(id: string): void {
+    this.activeLayer = this.getLayer(id);
+  }
+
+  // Get the ID of the layer new strokes are drawn on
+  getActiveLayer(): string {
+    return this.activeLayer.id;
+  }
+
+  // Get the selected strokes
+  getSelection(): Array<StrokeI> {
+    return this.getSelectedStrokes().map((s) => s.toObj());
+  }
+
+  // Select every stroke on the visible, unlocked layers
+  selectAll(): void {
+    this.setSelection(this.getSelectableStrokes());
+    this.redraw();
+  }
+
+  clearSelection(): void {
+    if (this.selection.length === 0) {
+      return;
+    }
+    this.setSelection([]);
+    this.redraw();
+  }
+
+  deleteSelection(): void {
+    const selected = this.getSelectedStrokes();
+    if (selected.length === 0) {
+      return;
+    }
+
+    const change = this.replaceStrokes(
+      selected,
+      selected.map(() => undefined),
+    );
+    this.setSelection([]);
+    this.redraw();
+    this.events.emit('delete', change);
+  }
+
+  // Add a copy of the selection, slightly offset, and select the copy
+  duplicateSelection(): void {
+    const selected = this.getSelectedStrokes();
+    if (selected.length === 0) {
+      return;
+    }
+
+    const offset = translation(DUPLICATE_OFFSET, DUPLICATE_OFFSET);
+    const copies = selected.map((s) => Stroke.fromCopy(transformStroke(s.toObj(), offset, this.getCanvasSize())));
+    this.transaction(() => {
+      copies.forEach((copy, i) => this.insertStrokes(this.getLayerOfStroke(selected[i]) as Layer, [copy]));
+    });
+    this.setSelection(copies);
+    this.redraw();
+    this.events.emit('paste', { added: copies.map((s) => s.toObj()), removed: [] });
+  }
+
+  // Change the color of every selected stroke
+  setSelectionColor(color: string): void {
+    const selected = this.getSelectedStrokes();
+    if (selected.length === 0) {
+      return;
+    }
+
+    const recolored = selected.map((s) => Stroke.fromCopy({ ...s.toObj(), color: color }));
+    const change = this.replaceStrokes(selected, recolored);
+    this.selection = recolored;
+    this.redraw();
+    this.events.emit('transform', change);
+  }
+
+  // Copy the selection to a clipboard shared by every sketchpad on the
+  // page. The copied strokes are returned too, so they can be put on the
+  // system clipboard
+  copy(): Array<StrokeI> {
+    clipboard = this.getSelectedStrokes().map((s) => copyStroke(s.toObj()));
+    // Callers get their own copy, so they can't change what is pasted
+    return clipboard.map(copyStroke);
+  }
+
+  // Copy the selection, then delete it
+  cut(): Array<StrokeI> {
+    const strokes = this.copy();
+    this.deleteSelection();
+    return strokes;
+  }
+
+  // Add strokes, by default those on the shared clipboard, to the active
+  // layer and select them
+  paste(strokes: Array<StrokeI> = clipboard): void {
+    if (!this.activeLayer.visible || this.activeLayer.locked) {
+      throw new Error('Cannot paste into a hidden or locked layer');
+    }
+    if (strokes.length === 0) {
+      return;
+    }
+
+    const pasted = strokes.map((s) => Stroke.fromCopy(s));
+    this.transaction(() => this.insertStrokes(this.activeLayer, pasted));
+    this.setSelection(pasted);
+    this.redraw();
+    this.events.emit('paste', { added: pasted.map((s) => s.toObj()), removed: [] });
+  }
+
+  // Get the ID of the author of new strokes and operations
+  getAuthorId(): string {
+    return this.authorId;
+  }
+
+  // Send local operations through a transport, applying the operations it
+  // receives from other sketchpads
+  connect(transport: TransportI): void {
+    this.disconnect();
+    this.transport = transport;
+    transport.onReceive((op) => {
+      if (this.transport === transport) {
+        this.applyRemote(op);
+      }
+    });
+  }
+
+  disconnect(): void {
+    this.transport?.close();
+    this.transport = undefined;
+  }
+
+  // Apply an operation made by another sketchpad editing the same drawing.
+  // When operations conflict, such as two authors erasing the same stroke,
+  // the one ordered first by `compareOperations` wins, so every sketchpad
+  // ends up with the same drawing whatever order operations arrive in
+  applyRemote(op: OperationI): void {
+    if (op.author === this.authorId || this.isKnownOperation(op.id)) {
+      return;
+    }
+    this.clock = Math.max(this.clock, op.clock);
+
+    const conflicts: Array<OperationI> = [];
+    for (let i = 0; i < op.removed.length; i++) {
+      const id = op.removed[i].stroke.id as string;
+      if (this.findStroke(id)) {
+        continue;
+      }
+      const other = this.removedBy[id];
+      if (other == null || compareOperations(other, op) < 0) {
+        this.rejectedOperations[op.id] = true;
+        return;
+      }
+      if (conflicts.indexOf(other) === -1) {
+        conflicts.push(other);
+      }
+    }
+
+    const before = this.getAllStrokes();
+    conflicts.forEach((other) => {
+      if (!this.rejectedOperations[other.id]) {
+        this.revertOperation(other);
+      }
+    });
+    this.applyOperation(op);
+    this.syncedStrokes = this.getCommittedPlacements();
+    this.invalidateCache();
+    this.redraw();
+    this.events.emit('remote', this.getStrokeChange(before));
+  }
+
+  // Every text on every layer, bottom layer first
+  getTexts(): Array<TextI> {
+    const texts: Array<TextI> = [];
+    this._layers.forEach((layer) => layer.texts.forEach((t) => texts.push(t.toObj())));
+    return texts;
+  }
+
+  // Add text to the active layer with its top left corner at a point in
+  // pixels. Returns the new text's ID
+  addText(text: string, position: PointI, opts?: TextOptionsI): string {
+    if (!this.activeLayer.visible || this.activeLayer.locked) {
+      throw new Error('Cannot add text to a hidden or locked layer');
+    }
+
+    return this.insertText(this.activeLayer, {
+      text: text,
+      x: position.x / this.width,
+      y: position.y / this.height,
+      size: this.getLineWidthRelativeToCanvas(opts?.size ?? this.scaleSize(this.textSize)),
+      font: opts?.font ?? this.textFont,
+      color: opts?.color ?? this.textColor,
+    });
+  }
+
+  // Change the words of a text. Text changed to nothing is removed
+  setText(id: string, text: string): void {
+    const { layer, index } = this.getText(id);
+    if (!/\S/.test(text)) {
+      this.removeText(id);
+      return;
+    }
+
+    const original = layer.texts[index];
+    const changed = TextBox.fromObj({ ...original.toObj(), text: text });
+    const texts = layer.texts.slice();
+    texts[index] = changed;
+    this.resetTexts(layer, texts);
+    this.redraw();
+    this.events.emit('text', { added: [changed.toObj()], removed: [original.toObj()] });
+  }
+
+  removeText(id: string): void {
+    const { layer, index } = this.getText(id);
+    const removed = layer.texts[index];
+    this.resetTexts(
+      layer,
+      layer.texts.filter((t) => t !== removed),
+    );
+    this.redraw();
+    this.events.emit('text', { added: [], removed: [removed.toObj()] });
+  }
+
+  // Replay the drawing stroke by stroke, `speed` times as fast as it was
+  // drawn. Resumes paused playback, or restarts playback that has ended.
+  // The sketchpad can't be drawn on until playback is stopped
+  play(speed = 1): void {
+    if (speed <= 0) {
+      throw new Error('Playback speed must be positive');
+    }
+
+    const playback = this.startPlayback();
+    if (playback.position >= playback.timeline.duration) {
+      playback.position = 0;
+    }
+    playback.speed = speed;
+    if (!playback.isPlaying) {
+      playback.isPlaying = true;
+      playback.lastFrameTime = Date.now();
+      this.requestPlaybackFrame();
+    }
+  }
+
+  pause(): void {
+    if (this.playback) {
+      this.playback.isPlaying = false;
+    }
+  }
+
+  // Show the drawing as it was a number of milliseconds into playback
+  seek(position: number): void {
+    const playback = this.startPlayback();
+    playback.position = Math.min(Math.max(position, 0), playback.timeline.duration);
+    playback.lastFrameTime = Date.now();
+    this.redraw();
+    this.emitProgress(playback);
+  }
+
+  // Stop playback and show the whole drawing again
+  stopPlayback(): void {
+    if (this.playback == null) {
+      return;
+    }
+    this.playback = undefined;
     this.redraw();
   }
 
+  isPlaying(): boolean {
+    return this.playback?.isPlaying === true;
+  }
+
+  // Get how long playback of the drawing takes at normal speed, in
+  // milliseconds
+  getPlaybackDuration(): number {
+    return (this.playback?.timeline || buildTimeline(this.getAllStrokes())).duration;
+  }
+
+  // Drop the points of every drawn stroke that barely change how it looks,
+  // as a single change that can be undone. `tolerance` is how far,
+  // relative to the width of the canvas, strokes may move. Shapes keep
+  // their outlines. Returns the number of points removed
+  simplify(tolerance = DEFAULT_SIMPLIFY_TOLERANCE): number {
+    if (tolerance < 0) {
+      throw new Error('Simplify tolerance must not be negative');
+    }
+
+    const activeStrokes = this.getActiveStrokes();
+    const originals: Array<Stroke> = [];
+    const replacements: Array<Stroke> = [];
+    let removedPoints = 0;
+    this.getAllStrokes().forEach((stroke) => {
+      if (stroke.shape || activeStrokes.indexOf(stroke) !== -1) {
+        return;
+      }
+      const points = stroke.points || [];
+      const simplified = simplifyPoints(points, tolerance, this.getCanvasSize());
+      if (simplified.length < points.length) {
+        originals.push(stroke);
+        replacements.push(Stroke.fromCopy({ ...stroke.toObj(), points: simplified }));
+        removedPoints += points.length - simplified.length;
+      }
+    });
+
+    if (originals.length > 0) {
+      this.replaceStrokes(originals, replacements);
+      this.selection = this.selection.map((s) => replacements[originals.indexOf(s)] || s);
+      this.redraw();
+    }
+    this.events.emit('simplify', { strokes: replacements.map((s) => s.toObj()), removedPoints: removedPoints });
+    return removedPoints;
+  }
+
   // Draw a straight line
   drawLine(start: PointI, end: PointI, lineOpts: LineOptionsI): void {
     this.setOptions({ line: lineOpts });
     start = this.getPointRelativeToCanvas(new Point(start.x, start.y));
     end = this.getPointRelativeToCanvas(new Point(end.x, end.y));
-    this.pushStroke([start, end]);
+    const stroke = this.pushStroke([start, end], undefined, this.scaleSize(this.lineWidth));
+    this.commitStroke(stroke);
     this.redraw();
+    this.events.emit('strokeend', { stroke: stroke.toObj() });
   }
 
   // Resize the canvas maintaining original aspect ratio
   resize(width: number): void {
     const height = width * this.aspectRatio;
-    this.lineWidth = this.lineWidth * (width / this.canvas.width);
-    this.eraserSize = this.eraserSize * (width / this.canvas.width);
+    this.view = {
+      zoom: this.view.zoom,
+      x: this.view.x * (width / this.width),
+      y: this.view.y * (width / this.width),
+    };
 
     this.setCanvasSize(width, height);
     this.redraw();
+    this.updateEraserIndicatorSize();
+    this.events.emit('resize', this.getCanvasSize());
+  }
+
+  // Resize the canvas to fit its container whenever the container changes
+  // size, keeping the aspect ratio. The canvas fills the container's width
+  // or height, or as much of the container as it can. Unset, the canvas is
+  // only resized by `resize`
+  setAutoResize(mode?: AutoResizeMode): void {
+    this.stopAutoResize?.();
+    this.stopAutoResize = undefined;
+    window.clearTimeout(this.autoResizeTimer);
+    if (mode == null) {
+      return;
+    }
+
+    const onResize = () => {
+      window.clearTimeout(this.autoResizeTimer);
+      this.autoResizeTimer = window.setTimeout(() => this.fitContainer(mode), AUTO_RESIZE_DELAY);
+    };
+    if (supportsResizeObserver()) {
+      const observer = new window.ResizeObserver(onResize);
+      observer.observe(this.container);
+      this.stopAutoResize = () => observer.disconnect();
+    } else {
+      window.addEventListener('resize', onResize);
+      this.stopAutoResize = () => window.removeEventListener('resize', onResize);
+    }
+    this.fitContainer(mode);
+  }
+
+  // Zoom the view, keeping the point at `center`, in pixels on the canvas,
+  // where it is on screen. Zooms about the middle of the canvas by default
+  zoomTo(zoom: number, center?: PointI): void {
+    if (zoom <= 0) {
+      throw new Error('Zoom must be positive');
+    }
+
+    const c = center || { x: this.width / 2, y: this.height / 2 };
+    const newZoom = Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM);
+    const scale = newZoom / this.view.zoom;
+    this.setView({
+      zoom: newZoom,
+      x: c.x - (c.x - this.view.x) * scale,
+      y: c.y - (c.y - this.view.y) * scale,
+    });
+  }
+
+  // Move the view by a number of pixels on the canvas
+  panBy(dx: number, dy: number): void {
+    this.setView({ zoom: this.view.zoom, x: this.view.x + dx, y: this.view.y + dy });
+  }
+
+  // Zoom and pan so the whole drawing fills the canvas, leaving `padding`
+  // pixels around it. An empty drawing is shown as it was drawn
+  fitToContent(padding = FIT_PADDING): void {
+    const bounds = this.getContentBounds();
+    if (bounds == null) {
+      this.resetView();
+      return;
+    }
+
+    const width = Math.max(this.width - 2 * padding, 1);
+    const height = Math.max(this.height - 2 * padding, 1);
+    const zoom = Math.min(
+      Math.max(Math.min(width / Math.max(bounds.width, 1), height / Math.max(bounds.height, 1)), MIN_ZOOM),
+      MAX_ZOOM,
+    );
+    this.setView({
+      zoom: zoom,
+      x: (this.width - bounds.width * zoom) / 2 - bounds.x * zoom,
+      y: (this.height - bounds.height * zoom) / 2 - bounds.y * zoom,
+    });
+  }
+
+  // Show the drawing unzoomed, with its top left corner at the canvas's
+  resetView(): void {
+    this.setView({ zoom: 1, x: 0, y: 0 });
+  }
+
+  getView(): ViewI {
+    return this.view;
   }
 
   // Returns a points x,y locations relative to the size of the canvas
   getPointRelativeToCanvas(point: PointI): PointI {
     return {
-      x: point.x / this.canvas.width,
-      y: point.y / this.canvas.height,
+      x: point.x / this.width,
+      y: point.y / this.height,
       skipped: false,
     };
   }
 
   //  Get the line size relative to the size of the canvas
   getLineSizeRelativeToCanvas(width: number): number {
-    return width / this.canvas.width;
+    return width / this.width;
   }
 
   updateEraserIndicatorSize(): void {
-    if (this.isEraserActive && this.updateCircleCursor) {
-      const circleCursor = this.canvas.parentNode?.lastChild as HTMLDivElement;
+    if (this.isEraserActive && this.updateCircleCursor && this.circleCursor) {
+      const circleCursor = this.circleCursor;
 
-      circleCursor.style.width = `${this.eraserSize}px`;
-      circleCursor.style.height = `${this.eraserSize}px`;
+      circleCursor.style.width = `${this.scaleSize(this.eraserSize)}px`;
+      circleCursor.style.height = `${this.scaleSize(this.eraserSize)}px`;
 
       this.updateCircleCursor(new MouseEvent('mousemove'));
     }
@@ -227,12 +1018,21 @@ export default class Sketchpad {
     if (opts.backgroundColor) {
       this.backgroundColor = opts.backgroundColor;
     }
+    if (opts.background) {
+      this.loadBackground(opts.background);
+    }
     if (opts.line?.size) {
-      this.lineWidth = opts.line.size;
+      this.lineWidth = this.unscaleSize(opts.line.size);
     }
     if (opts.line?.isInterpolationDone) {
       this.isInterpolationDone = opts.line.isInterpolationDone;
     }
+    if (opts.line?.stabilizer != null) {
+      if (opts.line.stabilizer < 0) {
+        throw new Error('Stabilizer must not be negative');
+      }
+      this.stabilizer = opts.line.stabilizer;
+    }
     if (opts.line?.cap) {
       this.lineCap = opts.line.cap;
     }
@@ -242,322 +1042,1792 @@ export default class Sketchpad {
     if (opts.line?.miterLimit) {
       this.lineMiterLimit = opts.line.miterLimit;
     }
+    if (opts.line?.brush) {
+      this.brush = opts.line.brush;
+    }
+    if (opts.text?.size) {
+      this.textSize = this.unscaleSize(opts.text.size);
+    }
+    if (opts.text?.font) {
+      this.textFont = opts.text.font;
+    }
+    if (opts.text?.color) {
+      this.textColor = opts.text.color;
+    }
     if (opts.aspectRatio) {
       this.aspectRatio = opts.aspectRatio;
     }
     if (opts.data) {
-      this._strokes = opts.data.strokes?.map((s) => Stroke.fromObj(s)) ?? [];
+      this._layers.splice(0, this._layers.length, ...this.dataToLayers(opts.data));
+      this.activeLayer = this._layers[this._layers.length - 1];
+    }
+    if (opts.historyDepth != null) {
+      this.history.setDepth(opts.historyDepth);
     }
     if (opts.onDrawEnd) {
       this.onDrawEnd = opts.onDrawEnd;
     }
-  }
-
-  // For a given event, get the point at which the event occurred
-  // relative to the canvas
-  private getCursorRelativeToCanvas(e: Event): Point {
-    let point: Point;
-    const rect = this.canvas.getBoundingClientRect();
-
-    if (isTouchEvent(e)) {
-      const touchEvent = e as TouchEvent;
-      point = new Point(touchEvent.touches[0].clientX - rect.left, touchEvent.touches[0].clientY - rect.top);
-    } else {
-      const mouseEvent = e as MouseEvent;
-      point = new Point(mouseEvent.clientX - rect.left, mouseEvent.clientY - rect.top);
+    if (opts.tool) {
+      this.tool = opts.tool;
     }
+    if (opts.reservePinchGestures != null) {
+      this.reservePinchGestures = opts.reservePinchGestures;
+    }
+    if (opts.viewportGestures != null) {
+      this.viewportGestures = opts.viewportGestures;
+    }
+    if (opts.inputPolicy) {
+      this.inputPolicy = opts.inputPolicy;
+    }
+    if (opts.palmRejection != null) {
+      this.palmRejection = opts.palmRejection;
+    }
+    if (opts.fingerScrolling != null) {
+      this.fingerScrolling = opts.fingerScrolling;
+    }
+    if (opts.pixelRatio != null) {
+      if (opts.pixelRatio <= 0) {
+        throw new Error('Pixel ratio must be positive');
+      }
+      this.fixedPixelRatio = opts.pixelRatio;
+    }
+    if (opts.authorId) {
+      this.authorId = opts.authorId;
+    }
+    if (opts.recordTiming != null) {
+      this.recordTiming = opts.recordTiming;
+    }
+    if (opts.simplifyTolerance != null) {
+      if (opts.simplifyTolerance < 0) {
+        throw new Error('Simplify tolerance must not be negative');
+      }
+      this.simplifyTolerance = opts.simplifyTolerance;
+    }
+  }
+
+  // For a given event, get every pointer it reports along with the point
+  // at which each occurred relative to the canvas
+  private getPointersRelativeToCanvas(e: Event): Array<PointerInputI> {
+    const pointers = this.getPointers(e);
+    if (this.recordTiming) {
+      const time = Date.now();
+      pointers.forEach((p) => (p.point.time = time));
+    }
+    return pointers;
+  }
+
+  private getPointers(e: Event): Array<PointerInputI> {
+    if (isTouchEvent(e)) {
+      const touches = (e as TouchEvent).changedTouches;
+      const pointers: Array<PointerInputI> = [];
+      for (let i = 0; i < touches.length; i++) {
+        const touch = touches[i] as Touch & { touchType?: string };
+        pointers.push({
+          id: touch.identifier,
+          // Safari reports the Apple Pencil as a touch of the stylus type
+          type: touch.touchType === 'stylus' ? 'pen' : 'touch',
+          point: this.getCursorRelativeToCanvas(touch),
+          contact: (touch.radiusX || 0) * (touch.radiusY || 0) * 4,
+        });
+      }
+      return pointers;
+    }
+
+    const point = this.getCursorRelativeToCanvas(e as MouseEvent);
+
+    if (isPointerEvent(e)) {
+      const pointerEvent = e as PointerEvent;
+      // Mice always report a pressure of 0.5 while a button is down, so only
+      // pens and touches are recorded as pressure-sensitive. Pens report no
+      // pressure as they lift off, so that is left out too
+      if (pointerEvent.pointerType !== 'mouse' && !isEndEvent(e)) {
+        point.pressure = pointerEvent.pressure;
+      }
+      return [
+        {
+          id: pointerEvent.pointerId,
+          type: pointerEvent.pointerType,
+          point: point,
+          contact: (pointerEvent.width || 0) * (pointerEvent.height || 0),
+        },
+      ];
+    }
+
+    return [{ id: MOUSE_POINTER_ID, type: 'mouse', point: point, contact: 0 }];
+  }
 
-    return new Point(point.x / this.canvas.width, point.y / this.canvas.height);
-  }
-
-  private normalizePoint(p: Point): Point {
-    return new Point(p.x * this.canvas.width, p.y * this.canvas.height);
-  }
-
-  private midPoint(p1: Point, p2: Point): Point {
-    return new Point((p1.x + p2.x) / 2, (p1.y + p2.y) / 2);
+  // For a given mouse or touch position, get the point at which it
+  // occurred relative to the canvas
+  private getCursorRelativeToCanvas(position: { clientX: number; clientY: number }): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    return new Point(
+      (position.clientX - rect.left - this.view.x) / this.view.zoom / this.width,
+      (position.clientY - rect.top - this.view.y) / this.view.zoom / this.height,
+    );
+  }
+
+  private normalizePoint(p: Point): Point {
+    return new Point(p.x * this.width, p.y * this.height, p.skipped, p.pressure, p.time);
   }
 
   private getLineWidthRelativeToCanvas(size: number): number {
-    return size / this.canvas.width;
+    return size / this.width;
+  }
+
+  // Scale a line, eraser or text size kept at `sizeWidth` to the canvas
+  private scaleSize(size: number): number {
+    return this.sizeWidth > 0 ? (size * this.width) / this.sizeWidth : size;
+  }
+
+  private unscaleSize(size: number): number {
+    return this.sizeWidth > 0 ? (size * this.sizeWidth) / this.width : size;
+  }
+
+  // Resize the canvas to the size of its container
+  private fitContainer(mode: AutoResizeMode): void {
+    const widthToFitHeight = this.container.clientHeight / this.aspectRatio;
+    let width = this.container.clientWidth;
+    if (mode === 'fit-height') {
+      width = widthToFitHeight;
+    } else if (mode === 'contain') {
+      width = Math.min(width, widthToFitHeight);
+    }
+    if (width > 0 && width !== this.width) {
+      this.resize(width);
+    }
   }
 
-  private normalizeLineWidth(width: number): number {
-    return width * this.canvas.width;
+  // Draw the saved drawing on a new canvas for an image, cropped and
+  // padded as asked. A forced background color replaces the background's
+  // color, image and template
+  private renderImage(opts?: ImageOptionsI): HTMLCanvasElement {
+    const pixelRatio = opts?.pixelRatio ?? 1;
+    const padding = opts?.padding ?? 0;
+    if (pixelRatio <= 0) {
+      throw new Error('Pixel ratio must be positive');
+    }
+    if (padding < 0) {
+      throw new Error('Padding must not be negative');
+    }
+
+    // An empty drawing has nothing to crop to, so it keeps the whole canvas
+    const area = (opts?.crop && this.getContentBounds(true)) || { x: 0, y: 0, width: this.width, height: this.height };
+    const background = opts?.background ?? true;
+    const backgroundColor = typeof background === 'string' ? background : background ? this.backgroundColor : undefined;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round((area.width + 2 * padding) * pixelRatio));
+    canvas.height = Math.max(1, Math.round((area.height + 2 * padding) * pixelRatio));
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    if (backgroundColor) {
+      ctx.fillStyle = backgroundColor;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, (padding - area.x) * pixelRatio, (padding - area.y) * pixelRatio);
+    renderDrawing(ctx, this.toJSON(), {
+      width: this.width,
+      height: this.height,
+      backgroundColor: backgroundColor,
+      background: background === true ? { ...this.background, image: this.backgroundImage } : undefined,
+    });
+    return canvas;
   }
 
   // Erase the entire canvas
-  private clearCanvas(): void {
-    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  private clearCanvas(ctx: CanvasRenderingContext2D): void {
+    this.applyPixelRatio(ctx);
+    ctx.clearRect(0, 0, this.width, this.height);
 
     if (this.backgroundColor) {
-      this.ctx.fillStyle = this.backgroundColor;
-      this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+      ctx.fillStyle = this.backgroundColor;
+      ctx.fillRect(0, 0, this.width, this.height);
+    }
+    this.applyView(ctx);
+    if (this.backgroundImage) {
+      drawBackgroundImage(ctx, this.backgroundImage, this.background.scale, this.getCanvasSize());
     }
+    // The paper goes on past the edges of the drawing, across the whole view
+    drawTemplate(ctx, this.background, this.getCanvasSize(), {
+      x: -this.view.x / this.view.zoom,
+      y: -this.view.y / this.view.zoom,
+      width: this.width / this.view.zoom,
+      height: this.height / this.view.zoom,
+    });
+    this.applyPixelRatio(ctx);
+  }
+
+  // Show the drawing through a new view
+  private setView(view: ViewI): void {
+    this.finishTextEditing();
+    this.view = view;
+    this.invalidateCache();
+    this.redraw();
+    this.events.emit('view', view);
+  }
+
+  // Draw on a canvas context in the pixels of the drawing, which are
+  // mapped to where the view shows them
+  private applyView(ctx: CanvasRenderingContext2D): void {
+    const ratio = this.getPixelRatioOf(ctx);
+    const zoom = this.view.zoom * ratio;
+    ctx.setTransform(zoom, 0, 0, zoom, this.view.x * ratio, this.view.y * ratio);
   }
 
-  // Draw a single stroke
-  private drawStroke(stroke: Stroke): void {
-    if (stroke.points == null) return;
+  // Draw on a canvas context in the pixels of the canvas on the page
+  private applyPixelRatio(ctx: CanvasRenderingContext2D): void {
+    const ratio = this.getPixelRatioOf(ctx);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  }
+
+  // Get how many pixels a canvas, such as one an image is exported to,
+  // has for each pixel of the canvas on the page
+  private getPixelRatioOf(ctx: CanvasRenderingContext2D): number {
+    return this.width > 0 ? ctx.canvas.width / this.width : this.pixelRatio;
+  }
+
+  // Resize the backing store if the pixel ratio has changed
+  private updatePixelRatio(): void {
+    const ratio = this.fixedPixelRatio ?? getDevicePixelRatio();
+    if (ratio === this.pixelRatio) {
+      return;
+    }
+    this.pixelRatio = ratio;
+    this.setCanvasSize(this.width, this.height);
+    this.redraw();
+  }
+
+  // Follow the screen's pixel ratio as the window moves between screens
+  // of different densities
+  private watchPixelRatio(): void {
+    if (typeof window.matchMedia !== 'function') {
+      return;
+    }
+
+    // Each query only matches a single ratio, so it's swapped for a new one
+    // whenever the ratio changes
+    this.stopWatchingPixelRatio?.();
+    const query = window.matchMedia(`(resolution: ${getDevicePixelRatio()}dppx)`);
+    const listener = () => {
+      this.updatePixelRatio();
+      this.watchPixelRatio();
+    };
+    query.addEventListener('change', listener);
+    this.stopWatchingPixelRatio = () => query.removeEventListener('change', listener);
+  }
+
+  // Get where a point in the pixels of the drawing is shown on the canvas
+  private toScreen(p: { x: number; y: number }): { x: number; y: number } {
+    return { x: p.x * this.view.zoom + this.view.x, y: p.y * this.view.zoom + this.view.y };
+  }
+
+  private toScreenBounds(bounds: BoundsI): BoundsI {
+    const corner = this.toScreen(bounds);
+    return { x: corner.x, y: corner.y, width: bounds.width * this.view.zoom, height: bounds.height * this.view.zoom };
+  }
+
+  // Use a background, loading its image if given a URL. The canvas is
+  // redrawn once the image has loaded
+  private loadBackground(background: BackgroundI): void {
+    this.background = background;
+    if (typeof background.image !== 'string') {
+      this.backgroundImage = background.image;
+      return;
+    }
+
+    const image = new Image();
+    image.addEventListener('load', () => {
+      if (this.backgroundImage === image) {
+        this.invalidateCache();
+        this.redraw();
+      }
+    });
+    image.src = background.image;
+    this.backgroundImage = image;
+  }
+
+  // Add a stroke to the active layer. Strokes are drawn the line width on
+  // screen unless given a width in the pixels of the drawing
+  private pushStroke(
+    points: Array<PointI>,
+    shape?: ShapeI,
+    lineWidth = this.scaleSize(this.lineWidth) / this.view.zoom,
+  ): Stroke {
+    const stroke = Stroke.fromObj({
+      points: points,
+      width: this.getLineWidthRelativeToCanvas(lineWidth),
+      color: this.lineColor,
+      cap: this.lineCap,
+      join: this.lineJoin,
+      miterLimit: this.lineMiterLimit,
+      isInterpolationDone: this.isInterpolationDone,
+      brush: this.brush,
+      shape: shape,
+      author: this.authorId,
+    });
+    this.activeLayer.strokes.push(stroke);
+    return stroke;
+  }
+
+  private pushShape(type: ShapeType, point: Point): Stroke {
+    const shape = { type: type, start: { x: point.x, y: point.y }, end: { x: point.x, y: point.y } };
+    return this.pushStroke(shapeToPoints(shape, this.getCanvasSize()), shape);
+  }
+
+  // Move the end of a shape being drawn, regenerating its outline
+  private updateShape(stroke: Stroke, end: Point, constrain: boolean): ShapeI {
+    const shape = stroke.shape as ShapeI;
+    let newShape: ShapeI = { type: shape.type, start: shape.start, end: { x: end.x, y: end.y } };
+    if (constrain) {
+      newShape = constrainShape(newShape, this.getCanvasSize());
+    }
+
+    stroke.shape = newShape;
+    stroke.points = shapeToPoints(newShape, this.getCanvasSize()).map((p) => new Point(p.x, p.y, p.skipped));
+    return newShape;
+  }
+
+  // Add the final point to a stroke being drawn. Returns the finished
+  // stroke, or nothing if it was discarded
+  private finishStroke(stroke: Stroke, point: Point, constrain: boolean): Stroke | undefined {
+    if (stroke.shape == null) {
+      // The stroke ends as firmly as it was last pressed, rather than
+      // thinning to nothing as the pen lifts
+      const last = stroke.points?.[stroke.points.length - 1];
+      if (point.pressure == null && last?.pressure != null) {
+        point = new Point(point.x, point.y, point.skipped, last.pressure, point.time);
+      }
+      this.pushPoint(stroke, point);
+      const interpolated = this.createNewStrokesAfterInterpolation(stroke, 2 / this.view.zoom);
+      return this.simplifyTolerance > 0 ? this.simplifyNewStroke(interpolated) : interpolated;
+    }
+
+    if (isEmptyShape(this.updateShape(stroke, point, constrain))) {
+      this.removeStroke(stroke);
+      return undefined;
+    }
+    return stroke;
+  }
+
+  // Simplify a stroke that has just been drawn, before it is committed
+  private simplifyNewStroke(stroke: Stroke): Stroke {
+    const points = stroke.points || [];
+    const simplified = Stroke.fromObj({
+      ...stroke.toObj(),
+      points: simplifyPoints(points, this.simplifyTolerance, this.getCanvasSize()),
+    });
+    const layer = this.getLayerOfStroke(stroke) as Layer;
+    layer.strokes[layer.strokes.indexOf(stroke)] = simplified;
+
+    const removedPoints = points.length - (simplified.points || []).length;
+    this.events.emit('simplify', { strokes: [simplified.toObj()], removedPoints: removedPoints });
+    return simplified;
+  }
+
+  // Record a finished stroke so it can be undone, and add it to the cache
+  private commitStroke(stroke: Stroke): void {
+    const layer = this.getLayerOfStroke(stroke) as Layer;
+    this.history.record(new AddStrokeCommand(layer.strokes, stroke, layer.strokes.indexOf(stroke)));
+    if (this.isCacheValid && this.isDrawnOnTop(layer)) {
+      this.applyView(this.cacheCtx);
+      drawStroke(this.cacheCtx, stroke.toObj(), this.getCanvasSize());
+      this.applyPixelRatio(this.cacheCtx);
+    } else {
+      this.invalidateCache();
+    }
+  }
 
+  // Describe how the strokes have changed since `before`
+  private getStrokeChange(before: Array<Stroke>): StrokeChangeI {
+    const after = this.getAllStrokes();
+    return {
+      added: after.filter((s) => before.indexOf(s) === -1).map((s) => s.toObj()),
+      removed: before.filter((s) => after.indexOf(s) === -1).map((s) => s.toObj()),
+    };
+  }
+
+  // Replace every stroke of a layer as a single change that can be undone
+  private resetStrokes(layer: Layer, strokes: Array<Stroke>): void {
+    const command = new ResetListCommand(layer.strokes, layer.strokes.slice(), strokes);
+    command.apply();
+    this.history.record(command);
+    this.invalidateCache();
+  }
+
+  // Replace every text of a layer as a single change that can be undone
+  private resetTexts(layer: Layer, texts: Array<TextBox>): void {
+    const command = new ResetListCommand(layer.texts, layer.texts.slice(), texts);
+    command.apply();
+    this.history.record(command);
+    this.invalidateCache();
+  }
+
+  // Add text above the other text of a layer, as a change that can be
+  // undone. Returns the new text's ID
+  private insertText(layer: Layer, text: TextI): string {
+    const added = TextBox.fromObj({ ...text, id: undefined, author: this.authorId });
+    this.resetTexts(layer, layer.texts.concat(added));
+    this.redraw();
+    this.events.emit('text', { added: [added.toObj()], removed: [] });
+    return added.id;
+  }
+
+  // Get the layer holding a text, and where the text sits in it
+  private getText(id: string): { layer: Layer; index: number } {
+    for (let i = 0; i < this._layers.length; i++) {
+      const index = this._layers[i].texts.map((t) => t.id).indexOf(id);
+      if (index !== -1) {
+        if (this._layers[i].locked) {
+          throw new Error('Cannot change text on a locked layer');
+        }
+        return { layer: this._layers[i], index: index };
+      }
+    }
+    throw new Error(`Unknown text "${id}"`);
+  }
+
+  // Get the topmost text under a point on a visible, unlocked layer
+  private getTextAt(point: PointI): { layer: Layer; text: TextBox } | undefined {
+    const p = { x: point.x * this.width, y: point.y * this.height };
+    for (let i = this._layers.length - 1; i >= 0; i--) {
+      const layer = this._layers[i];
+      for (let j = layer.texts.length - 1; layer.visible && !layer.locked && j >= 0; j--) {
+        if (isInBounds(getTextBounds(this.ctx, layer.texts[j], this.getCanvasSize()), p)) {
+          return { layer: layer, text: layer.texts[j] };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  // Open a box for typing new text at a point, or for editing the text
+  // already there. The text is added once the box loses focus, or on Enter
+  private startTextEditing(point: Point): void {
+    this.finishTextEditing();
+    const existing = this.getTextAt(point);
+    if (existing == null && (!this.activeLayer.visible || this.activeLayer.locked)) {
+      return;
+    }
+
+    const text: TextI = existing
+      ? existing.text.toObj()
+      : {
+          text: '',
+          x: point.x,
+          y: point.y,
+          size: this.getLineWidthRelativeToCanvas(this.scaleSize(this.textSize) / this.view.zoom),
+          font: this.textFont,
+          color: this.textColor,
+        };
+    const element = document.createElement('textarea');
+    element.value = text.text;
+    element.wrap = 'off';
+    element.rows = text.text.split('\n').length;
+    element.style.position = 'absolute';
+    const position = this.toScreen(this.normalizePoint(new Point(text.x, text.y)));
+    element.style.left = `${this.canvas.offsetLeft + position.x}px`;
+    element.style.top = `${this.canvas.offsetTop + position.y}px`;
+    element.style.font = getFont(text, {
+      width: this.width * this.view.zoom,
+      height: this.height * this.view.zoom,
+    });
+    element.style.lineHeight = `${LINE_HEIGHT}`;
+    element.style.color = text.color || DEFAULT_TEXT_COLOR;
+    element.style.background = 'transparent';
+    element.style.border = `1px dashed ${SELECTION_COLOR}`;
+    element.style.margin = '-1px 0 0 -1px'; // Keep the text where it is drawn, inside the border
+    element.style.padding = '0';
+    element.style.outline = 'none';
+    element.style.resize = 'none';
+    element.style.overflow = 'hidden';
+    element.style.zIndex = '999';
+    element.addEventListener('input', () => (element.rows = element.value.split('\n').length));
+    element.addEventListener('blur', () => this.finishTextEditing());
+    element.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        this.cancelTextEditing();
+      } else if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        this.finishTextEditing();
+      }
+    });
+
+    this.canvas.parentNode?.appendChild(element);
+    this.textEditor = {
+      element: element,
+      layer: existing?.layer || this.activeLayer,
+      original: existing?.text,
+      text: text,
+    };
+    this.invalidateCache();
+    this.redraw();
+    element.focus();
+  }
+
+  // Add, change or remove the text being edited, as typed
+  private finishTextEditing(): void {
+    const editor = this.cancelTextEditing();
+    if (editor == null) {
+      return;
+    }
+
+    const value = editor.element.value;
+    if (editor.original) {
+      if (value !== editor.original.text) {
+        this.setText(editor.original.id, value);
+      }
+    } else if (/\S/.test(value)) {
+      this.insertText(editor.layer, { ...editor.text, text: value });
+    }
+  }
+
+  // Close the text box without changing the text. Returns the editor that
+  // was open, if any
+  private cancelTextEditing(): TextEditorI | undefined {
+    const editor = this.textEditor;
+    if (editor == null) {
+      return undefined;
+    }
+
+    this.textEditor = undefined;
+    editor.element.remove();
+    this.invalidateCache();
+    this.redraw();
+    return editor;
+  }
+
+  // Replace the list of layers as a single change that can be undone
+  private resetLayers(layers: Array<Layer>): void {
+    const command = new ResetListCommand(this._layers, this._layers.slice(), layers);
+    command.apply();
+    this.history.record(command);
+    this.ensureActiveLayer();
+  }
+
+  // Make the top layer active if the active layer has been removed
+  private ensureActiveLayer(): void {
+    if (this._layers.indexOf(this.activeLayer) === -1) {
+      this.activeLayer = this._layers[this._layers.length - 1];
+    }
+  }
+
+  // Layers get IDs of their own, so layers added by different authors at
+  // the same time never take each other's strokes
+  private createLayer(name?: string, id = createId()): Layer {
+    return new Layer(id, name ?? `Layer ${this.nextLayerId++}`);
+  }
+
+  private getLayer(id: string): Layer {
+    for (let i = 0; i < this._layers.length; i++) {
+      if (this._layers[i].id === id) {
+        return this._layers[i];
+      }
+    }
+    throw new Error(`Unknown layer "${id}"`);
+  }
+
+  private getLayerOfStroke(stroke: Stroke): Layer | undefined {
+    for (let i = 0; i < this._layers.length; i++) {
+      if (this._layers[i].strokes.indexOf(stroke) !== -1) {
+        return this._layers[i];
+      }
+    }
+    return undefined;
+  }
+
+  private removeStroke(stroke: Stroke): void {
+    const layer = this.getLayerOfStroke(stroke);
+    if (layer) {
+      layer.strokes.splice(layer.strokes.indexOf(stroke), 1);
+    }
+  }
+
+  // Every stroke, bottom layer first
+  private getAllStrokes(): Array<Stroke> {
+    const strokes: Array<Stroke> = [];
+    this._layers.forEach((l) => strokes.push(...l.strokes));
+    return strokes;
+  }
+
+  // Where every committed stroke sits, leaving out strokes still being drawn
+  private getCommittedPlacements(): { [strokeId: string]: PlacementI } {
+    const activeStrokes = this.getActiveStrokes();
+    const placements: { [strokeId: string]: PlacementI } = {};
+    this._layers.forEach((layer) => {
+      layer.strokes.forEach((stroke, index) => {
+        if (activeStrokes.indexOf(stroke) === -1) {
+          placements[stroke.id] = { layer: layer.id, index: index, stroke: stroke };
+        }
+      });
+    });
+    return placements;
+  }
+
+  // Turn the committed changes since the last operation into a new
+  // operation, and send it to the other sketchpads. Committed strokes are
+  // never changed in place, so comparing their IDs finds every change
+  private publishOperation(): void {
+    const current = this.getCommittedPlacements();
+    const added = Object.keys(current)
+      .filter((id) => this.syncedStrokes[id] == null)
+      .map((id) => current[id]);
+    const removed = Object.keys(this.syncedStrokes)
+      .filter((id) => current[id] == null)
+      .map((id) => this.syncedStrokes[id]);
+    this.syncedStrokes = current;
+    if (added.length === 0 && removed.length === 0) {
+      return;
+    }
+
+    this.clock++;
+    const toObj = (p: PlacementI) => ({ layer: p.layer, index: p.index, stroke: p.stroke.toObj() });
+    const op: OperationI = {
+      id: `${this.authorId}:${this.clock}`,
+      author: this.authorId,
+      clock: this.clock,
+      // Added in order, so each lands at its index
+      added: added
+        .map(toObj)
+        .sort((a, b) => this.getLayerIndex(a.layer) - this.getLayerIndex(b.layer) || a.index - b.index),
+      removed: removed.map(toObj),
+    };
+    this.recordOperation(op);
+    this.events.emit('operation', op);
+    this.transport?.send(op);
+  }
+
+  // Keep track of an applied operation and the strokes it removed
+  private recordOperation(op: OperationI): void {
+    op.removed.forEach((p) => (this.removedBy[p.stroke.id as string] = op));
+    op.added.forEach((p) => delete this.removedBy[p.stroke.id as string]);
+    this._operations.push(op);
+  }
+
+  private applyOperation(op: OperationI): void {
+    op.removed.forEach((p) => this.removeStrokeById(p.stroke.id as string));
+    op.added.forEach((p) => this.insertPlacement(p));
+    this.recordOperation(op);
+  }
+
+  // Undo an operation that lost a conflict, along with any later
+  // operations that changed the strokes it added
+  private revertOperation(op: OperationI): void {
+    this.rejectedOperations[op.id] = true;
+    this._operations.splice(this._operations.indexOf(op), 1);
+
+    op.added.forEach((p) => {
+      const other = this.removedBy[p.stroke.id as string];
+      if (other && !this.rejectedOperations[other.id]) {
+        this.revertOperation(other);
+      }
+    });
+    op.added.forEach((p) => this.removeStrokeById(p.stroke.id as string));
+    op.removed.forEach((p) => {
+      const id = p.stroke.id as string;
+      if (this.removedBy[id] === op) {
+        delete this.removedBy[id];
+      }
+      if (this.findStroke(id) == null) {
+        this.insertPlacement(p);
+      }
+    });
+  }
+
+  private isKnownOperation(id: string): boolean {
+    return this.rejectedOperations[id] || this._operations.some((op) => op.id === id);
+  }
+
+  private findStroke(id: string): { layer: Layer; index: number } | undefined {
+    for (let i = 0; i < this._layers.length; i++) {
+      const strokes = this._layers[i].strokes;
+      for (let j = 0; j < strokes.length; j++) {
+        if (strokes[j].id === id) {
+          return { layer: this._layers[i], index: j };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private removeStrokeById(id: string): void {
+    const found = this.findStroke(id);
+    if (found) {
+      found.layer.strokes.splice(found.index, 1);
+    }
+  }
+
+  // Add a stroke from another sketchpad, creating its layer if needed
+  private insertPlacement(placement: StrokePlacementI): void {
+    let layer = this._layers.filter((l) => l.id === placement.layer)[0];
+    if (layer == null) {
+      layer = new Layer(placement.layer, `Layer ${this._layers.length + 1}`);
+      this._layers.push(layer);
+    }
+    layer.strokes.splice(Math.min(placement.index, layer.strokes.length), 0, Stroke.fromObj(placement.stroke));
+  }
+
+  private getLayerIndex(id: string): number {
+    return this._layers.map((l) => l.id).indexOf(id);
+  }
+
+  // Add finished strokes to the top of a layer, recording them so they can
+  // be undone
+  private insertStrokes(layer: Layer, strokes: Array<Stroke>): void {
+    strokes.forEach((stroke) => {
+      layer.strokes.push(stroke);
+      this.history.record(new AddStrokeCommand(layer.strokes, stroke, layer.strokes.length - 1));
+    });
+    this.invalidateCache();
+  }
+
+  // Replace each stroke with its replacement, or remove it if it has none,
+  // as a single change that can be undone
+  private replaceStrokes(originals: Array<Stroke>, replacements: Array<Stroke | undefined>): StrokeChangeI {
+    const change: StrokeChangeI = { added: [], removed: [] };
+    const commands: Array<CommandI> = originals.map((original, i) => {
+      const layer = this.getLayerOfStroke(original) as Layer;
+      const index = layer.strokes.indexOf(original);
+      const replacement = replacements[i];
+      const command = new ReplaceStrokeCommand(layer.strokes, original, replacement ? [replacement] : [], index);
+      command.apply();
+      change.removed.push(original.toObj());
+      if (replacement) {
+        change.added.push(replacement.toObj());
+      }
+      return command;
+    });
+
+    this.history.record(new CompositeCommand(commands));
+    this.invalidateCache();
+    return change;
+  }
+
+  // Whether strokes added to a layer can be drawn straight over the cache:
+  // the layer is opaque and no visible strokes or text lie above it
+  private isDrawnOnTop(layer: Layer): boolean {
+    if (!layer.visible || layer.opacity < 1 || layer.texts.length > 0) {
+      return false;
+    }
+    for (let i = this._layers.indexOf(layer) + 1; i < this._layers.length; i++) {
+      if (this._layers[i].visible && (this._layers[i].strokes.length > 0 || this._layers[i].texts.length > 0)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Build layers from loaded data, migrated to the current version
+  private dataToLayers(data: DataI): Array<Layer> {
+    const layers = migrateData(data).layers || [];
+    if (layers.length === 0) {
+      return [this.createLayer(undefined, DEFAULT_LAYER_ID)];
+    }
+
+    return layers.map((obj, i) => {
+      const layer = this.createLayer(obj.name, i === 0 ? DEFAULT_LAYER_ID : undefined);
+      return Layer.fromObj(obj, obj.id ?? layer.id, layer.name);
+    });
+  }
+
+  // Move the pointer end of a stabilizer's leash, dragging the pen along
+  // once the leash is pulled taut. Returns where the pen moved to, or
+  // nothing if the pointer is still within reach of it, so jitter smaller
+  // than the leash never reaches the stroke
+  private pullLeash(leash: LeashI, point: Point): Point | undefined {
+    leash.pointer = point;
+    const dx = (point.x - leash.pen.x) * this.width;
+    const dy = (point.y - leash.pen.y) * this.height;
+    const distance = Math.hypot(dx, dy);
+    // The leash is the same length on screen at any zoom
+    const length = this.stabilizer / this.view.zoom;
+    if (distance <= length) {
+      return undefined;
+    }
+
+    const pull = (distance - length) / distance;
+    leash.pen = new Point(
+      leash.pen.x + (point.x - leash.pen.x) * pull,
+      leash.pen.y + (point.y - leash.pen.y) * pull,
+      false,
+      point.pressure,
+      point.time,
+    );
+    return leash.pen;
+  }
+
+  private pushPoint(stroke: Stroke, point: Point): void {
+    if (stroke.points) {
+      stroke.points.push(point);
+    }
+  }
+
+  // Strokes that are still being drawn by an active pointer
+  private getActiveStrokes(): Array<Stroke> {
+    const strokes: Array<Stroke> = [];
+    for (const id in this.activePointers) {
+      const stroke = this.activePointers[id].stroke;
+      if (stroke) {
+        strokes.push(stroke);
+      }
+    }
+    return strokes;
+  }
+
+  private isSketching(): boolean {
+    return Object.keys(this.activePointers).length > 0;
+  }
+
+  // Mark the committed strokes cache as stale so the next redraw repaints
+  // every stroke
+  private invalidateCache(): void {
+    this.isCacheValid = false;
+  }
+
+  // Paint the background and every committed stroke of the visible layers
+  // to the cache, leaving out selected strokes while they are transformed
+  private renderCache(): void {
+    const activeStrokes = this.getActiveStrokes().concat(this.selectionGesture?.originals || []);
+    this.clearCanvas(this.cacheCtx);
+    this.drawLayers(this.cacheCtx, (s) => (activeStrokes.indexOf(s) === -1 ? s : undefined));
+    this.isCacheValid = true;
+  }
+
+  // Draw the visible layers, with each stroke replaced by what `select`
+  // returns for it, or left out if it returns nothing
+  private drawLayers(ctx: CanvasRenderingContext2D, select: (s: Stroke) => Stroke | undefined): void {
+    this.applyView(ctx);
+    this._layers.forEach((layer) => {
+      if (!layer.visible) {
+        return;
+      }
+
+      const strokes: Array<Stroke> = [];
+      layer.strokes.forEach((s) => {
+        const selected = select(s);
+        if (selected) {
+          strokes.push(selected);
+        }
+      });
+      // Text sits above the strokes of its layer, and is hidden while it's
+      // being edited
+      const texts = layer.texts.filter((t) => t !== this.textEditor?.original);
+      if (layer.opacity >= 1) {
+        strokes.forEach((s) => drawStroke(ctx, s.toObj(), this.getCanvasSize()));
+        texts.forEach((t) => drawText(ctx, t, this.getCanvasSize()));
+        return;
+      }
+
+      const layerCtx = this.getLayerContext(ctx);
+      this.applyPixelRatio(layerCtx);
+      layerCtx.clearRect(0, 0, this.width, this.height);
+      this.applyView(layerCtx);
+      strokes.forEach((s) => drawStroke(layerCtx, s.toObj(), this.getCanvasSize()));
+      texts.forEach((t) => drawText(layerCtx, t, this.getCanvasSize()));
+      this.applyPixelRatio(ctx);
+      ctx.globalAlpha = layer.opacity;
+      ctx.drawImage(layerCtx.canvas, 0, 0, this.width, this.height);
+      ctx.globalAlpha = 1;
+      this.applyView(ctx);
+    });
+    this.applyPixelRatio(ctx);
+  }
+
+  // Get a canvas the size of the one `ctx` draws on, for drawing
+  // translucent layers on before they are added to it
+  private getLayerContext(ctx: CanvasRenderingContext2D): CanvasRenderingContext2D {
+    if (ctx.canvas.width === this.layerCanvas.width && ctx.canvas.height === this.layerCanvas.height) {
+      return this.layerCtx;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = ctx.canvas.width;
+    canvas.height = ctx.canvas.height;
+    return canvas.getContext('2d') as CanvasRenderingContext2D;
+  }
+
+  // Redraw the canvas from the cache, repainting only strokes in progress
+  private redraw(): void {
+    if (this.playback) {
+      this.drawPlaybackFrame(this.playback);
+      return;
+    }
+    if (!this.isCacheValid) {
+      this.renderCache();
+    }
+
+    this.applyPixelRatio(this.ctx);
+    this.ctx.clearRect(0, 0, this.width, this.height);
+    this.ctx.drawImage(this.cache, 0, 0, this.width, this.height);
+    this.applyView(this.ctx);
+    this.getActiveStrokes().forEach((s) => {
+      const layer = this.getLayerOfStroke(s);
+      if (layer == null || !layer.visible) {
+        return;
+      }
+
+      this.ctx.globalAlpha = layer.opacity;
+      // Shapes are previewed as they are, without smoothing their corners
+      if (s.shape) {
+        drawStroke(this.ctx, s.toObj(), this.getCanvasSize());
+      } else {
+        drawQuadraticCurveStroke(this.ctx, s.toObj(), this.getCanvasSize());
+      }
+      this.ctx.globalAlpha = 1;
+    });
+    this.applyPixelRatio(this.ctx);
+    this.drawLeashes();
+    this.drawSelection();
+  }
+
+  // Draw the stabilizer's leash from each pen to its pointer, with a ring
+  // around the pointer showing how far it can move before the pen follows
+  private drawLeashes(): void {
+    for (const id in this.activePointers) {
+      const leash = this.activePointers[id].leash;
+      if (leash == null) {
+        continue;
+      }
+
+      const pen = this.toScreen(this.normalizePoint(leash.pen));
+      const pointer = this.toScreen(this.normalizePoint(leash.pointer));
+      this.ctx.save();
+      this.ctx.lineWidth = 1;
+      this.ctx.strokeStyle = SELECTION_COLOR;
+      this.ctx.beginPath();
+      this.ctx.arc(pointer.x, pointer.y, this.stabilizer, 0, 2 * Math.PI);
+      this.ctx.moveTo(pen.x, pen.y);
+      this.ctx.lineTo(pointer.x, pointer.y);
+      this.ctx.stroke();
+      this.ctx.restore();
+    }
+  }
+
+  // Draw the selection box or lasso being dragged out, or the bounds and
+  // handles of the selected strokes
+  private drawSelection(): void {
+    const gesture = this.selectionGesture;
+    if (gesture == null && this.selection.length === 0) {
+      return;
+    }
+
+    // Strokes being transformed are previewed until the gesture ends
+    this.applyView(this.ctx);
+    gesture?.preview.forEach((s, i) => {
+      this.ctx.globalAlpha = (this.getLayerOfStroke(gesture.originals[i]) as Layer).opacity;
+      drawStroke(this.ctx, s.toObj(), this.getCanvasSize());
+    });
+    this.ctx.globalAlpha = 1;
+    this.applyPixelRatio(this.ctx);
+
+    // The outline and handles are drawn the same size at any zoom
+
+    this.ctx.save();
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeStyle = SELECTION_COLOR;
+    this.ctx.fillStyle = '#fff';
+    this.ctx.setLineDash([4, 4]);
+
+    if (gesture && (gesture.mode === 'box' || gesture.mode === 'lasso')) {
+      this.ctx.beginPath();
+      this.getSelectionPolygon(gesture)
+        .map((p) => this.toScreen(p))
+        .forEach((p, i) => (i === 0 ? this.ctx.moveTo(p.x, p.y) : this.ctx.lineTo(p.x, p.y)));
+      this.ctx.closePath();
+      this.ctx.stroke();
+    } else {
+      const selectionBounds = gesture ? getBounds(gesture.preview, this.getCanvasSize()) : this.getSelectionBounds();
+      if (selectionBounds) {
+        const bounds = this.toScreenBounds(selectionBounds);
+        this.ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+        this.ctx.setLineDash([]);
+        getHandles(bounds).forEach((handle) => this.drawHandle(bounds, handle));
+      }
+    }
+    this.ctx.restore();
+  }
+
+  private drawHandle(bounds: BoundsI, handle: HandleI): void {
     this.ctx.beginPath();
+    if (handle.type === 'rotate') {
+      this.ctx.moveTo(handle.x, bounds.y);
+      this.ctx.lineTo(handle.x, handle.y + HANDLE_SIZE / 2);
+      this.ctx.stroke();
+      this.ctx.beginPath();
+      this.ctx.arc(handle.x, handle.y, HANDLE_SIZE / 2, 0, 2 * Math.PI);
+    } else {
+      this.ctx.rect(handle.x - HANDLE_SIZE / 2, handle.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+    }
+    this.ctx.fill();
+    this.ctx.stroke();
+  }
+
+  // Start playback paused at the beginning, unless it has already started
+  private startPlayback(): PlaybackI {
+    if (this.playback == null) {
+      const timeline = buildTimeline(this.getAllStrokes());
+      const entries: { [strokeId: string]: TimelineEntryI<Stroke> } = {};
+      timeline.entries.forEach((entry) => (entries[entry.stroke.id] = entry));
+      this.playback = {
+        timeline: timeline,
+        entries: entries,
+        position: 0,
+        speed: 1,
+        isPlaying: false,
+        isFrameRequested: false,
+        lastFrameTime: Date.now(),
+      };
+    }
+    return this.playback;
+  }
+
+  private requestPlaybackFrame(): void {
+    const playback = this.playback;
+    if (playback == null || playback.isFrameRequested) {
+      return;
+    }
+    playback.isFrameRequested = true;
+    requestFrame(() => {
+      playback.isFrameRequested = false;
+      // Playback may have been stopped, or the sketchpad destroyed, since
+      // the frame was requested
+      if (this.playback === playback) {
+        this.advancePlayback(playback);
+      }
+    });
+  }
+
+  private advancePlayback(playback: PlaybackI): void {
+    if (this.playback !== playback || !playback.isPlaying) {
+      return;
+    }
+
+    const now = Date.now();
+    playback.position = Math.min(
+      playback.position + (now - playback.lastFrameTime) * playback.speed,
+      playback.timeline.duration,
+    );
+    playback.lastFrameTime = now;
+    if (playback.position >= playback.timeline.duration) {
+      playback.isPlaying = false;
+    }
+
+    this.redraw();
+    this.emitProgress(playback);
+    this.requestPlaybackFrame();
+  }
+
+  // Draw the strokes, and the parts of strokes, drawn by the current point
+  // in playback
+  private drawPlaybackFrame(playback: PlaybackI): void {
+    this.clearCanvas(this.ctx);
+    this.drawLayers(this.ctx, (s) => {
+      const entry = playback.entries[s.id];
+      const count = entry ? getPointsDrawn(entry, playback.position) : 0;
+      if (count === 0 || s.points == null) {
+        return undefined;
+      }
+      return count === s.points.length ? s : Stroke.fromObj({ ...s.toObj(), points: s.points.slice(0, count) });
+    });
+  }
 
-    for (let i = 0; i < stroke.points.length - 1; i++) {
-      const currentPoint = stroke.points[i];
-      const nextPoint = stroke.points[i + 1];
+  private emitProgress(playback: PlaybackI): void {
+    this.events.emit('progress', { position: playback.position, duration: playback.timeline.duration });
+  }
 
-      if (!(currentPoint.skipped || (nextPoint && nextPoint.skipped))) {
-        const e = this.normalizePoint(currentPoint);
-        const n = this.normalizePoint(nextPoint);
-        this.ctx.moveTo(e.x, e.y);
-        this.ctx.lineTo(n.x, n.y);
+  // Strokes that can be selected: those on visible, unlocked layers that
+  // aren't being drawn
+  private getSelectableStrokes(): Array<Stroke> {
+    const activeStrokes = this.getActiveStrokes();
+    const strokes: Array<Stroke> = [];
+    this._layers.forEach((layer) => {
+      if (layer.visible && !layer.locked) {
+        strokes.push(...layer.strokes.filter((s) => activeStrokes.indexOf(s) === -1));
+      }
+    });
+    return strokes;
+  }
+
+  // Selected strokes that can still be changed. Undoing, erasing and
+  // hiding or locking layers can leave strokes selected that no longer can
+  private getSelectedStrokes(): Array<Stroke> {
+    const selectable = this.getSelectableStrokes();
+    return this.selection.filter((s) => selectable.indexOf(s) !== -1);
+  }
+
+  private getSelectionBounds(): BoundsI | undefined {
+    return getBounds(this.getSelectedStrokes(), this.getCanvasSize());
+  }
+
+  // Get the bounds of every stroke and text on the visible layers. With
+  // `inked`, strokes are measured out to the edges of their lines rather
+  // than their points
+  private getContentBounds(inked = false): BoundsI | undefined {
+    const bounds: Array<BoundsI> = [];
+    this._layers.forEach((layer) => {
+      if (layer.visible) {
+        layer.strokes.forEach((s) => {
+          const strokeBounds = getBounds([s], this.getCanvasSize());
+          const reach = inked ? getInkReach(s.toObj(), this.getCanvasSize()) : 0;
+          if (strokeBounds) {
+            bounds.push({
+              x: strokeBounds.x - reach,
+              y: strokeBounds.y - reach,
+              width: strokeBounds.width + 2 * reach,
+              height: strokeBounds.height + 2 * reach,
+            });
+          }
+        });
+        layer.texts.forEach((t) => bounds.push(getTextBounds(this.ctx, t, this.getCanvasSize())));
       }
+    });
+    if (bounds.length === 0) {
+      return undefined;
+    }
+
+    const left = Math.min(...bounds.map((b) => b.x));
+    const top = Math.min(...bounds.map((b) => b.y));
+    const right = Math.max(...bounds.map((b) => b.x + b.width));
+    const bottom = Math.max(...bounds.map((b) => b.y + b.height));
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+
+  private setSelection(strokes: Array<Stroke>): void {
+    this.selection = strokes;
+    this.events.emit('select', { strokes: strokes.map((s) => s.toObj()) });
+  }
+
+  // Start dragging out a selection, or transforming the selection if one
+  // of its handles or the selection itself was grabbed
+  private startSelectionGesture(point: Point): void {
+    const start = this.normalizePoint(point);
+    const bounds = this.getSelectionBounds();
+    // Handles are the same size on screen at any zoom
+    const handle = bounds && getHandleAt(this.toScreenBounds(bounds), this.toScreen(start));
+    let mode: SelectionMode = this.tool === 'lasso' ? 'lasso' : 'box';
+    if (handle) {
+      mode = handle.type === 'rotate' ? 'rotate' : 'scale';
+    } else if (bounds && isInBounds(bounds, start)) {
+      mode = 'move';
+    }
+
+    const isTransform = mode !== 'box' && mode !== 'lasso';
+    const originals = isTransform ? this.getSelectedStrokes() : [];
+    this.selectionGesture = {
+      mode: mode,
+      start: start,
+      path: [start],
+      bounds: bounds,
+      handle: handle?.type,
+      originals: originals,
+      preview: originals.map((s) => Stroke.fromCopy(s.toObj())),
+    };
+    if (isTransform) {
+      this.invalidateCache();
+    }
+  }
+
+  private updateSelectionGesture(point: Point, constrain: boolean): void {
+    const gesture = this.selectionGesture;
+    if (gesture == null) {
+      return;
+    }
+
+    const p = this.normalizePoint(point);
+    if (gesture.mode === 'box') {
+      gesture.path = [gesture.start, p];
+    } else if (gesture.mode === 'lasso') {
+      gesture.path.push(p);
+    } else {
+      gesture.matrix = this.getSelectionMatrix(gesture, p, constrain);
+      const matrix = gesture.matrix;
+      gesture.preview = gesture.originals.map((s) =>
+        Stroke.fromCopy(transformStroke(s.toObj(), matrix, this.getCanvasSize())),
+      );
+    }
+  }
+
+  // Select the strokes inside the box or lasso, or apply the transform
+  private finishSelectionGesture(): void {
+    const gesture = this.selectionGesture;
+    if (gesture == null) {
+      return;
+    }
+    this.selectionGesture = undefined;
+
+    if (gesture.mode === 'box' || gesture.mode === 'lasso') {
+      const polygon = this.getSelectionPolygon(gesture);
+      const size = this.getCanvasSize();
+      const isInside = (p: PointI) => p.skipped || isInPolygon(polygon, { x: p.x * size.width, y: p.y * size.height });
+      this.setSelection(
+        this.getSelectableStrokes().filter((s) => {
+          const points = s.points || [];
+          return points.some((p) => !p.skipped) && points.every(isInside);
+        }),
+      );
+    } else if (gesture.matrix && !isIdentity(gesture.matrix)) {
+      const change = this.replaceStrokes(gesture.originals, gesture.preview);
+      this.selection = gesture.preview;
+      this.events.emit('transform', change);
+    }
+    this.invalidateCache();
+    this.redraw();
+  }
+
+  private getSelectionPolygon(gesture: SelectionGestureI): Array<{ x: number; y: number }> {
+    if (gesture.mode === 'lasso') {
+      return gesture.path;
+    }
+
+    const start = gesture.path[0];
+    const end = gesture.path[gesture.path.length - 1];
+    return [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }];
+  }
+
+  // Get the transform for dragging a selection handle, or the selection
+  // itself, to a point. Constraining keeps the aspect ratio when scaling
+  // and snaps rotation to multiples of 15°
+  private getSelectionMatrix(gesture: SelectionGestureI, p: Point, constrain: boolean): MatrixI {
+    const bounds = gesture.bounds as BoundsI;
+    const start = gesture.start;
+
+    if (gesture.mode === 'rotate') {
+      const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+      let angle = Math.atan2(p.y - center.y, p.x - center.x) - Math.atan2(start.y - center.y, start.x - center.x);
+      if (constrain) {
+        angle = Math.round(angle / ROTATION_STEP) * ROTATION_STEP;
+      }
+      return rotation(angle, center);
+    }
+
+    if (gesture.mode === 'scale') {
+      const handle = gesture.handle as HandleType;
+      const anchor = getOppositeCorner(bounds, handle);
+      const corner = getHandles(bounds).filter((h) => h.type === handle)[0];
+      let sx = corner.x === anchor.x ? 1 : (p.x - anchor.x) / (corner.x - anchor.x);
+      let sy = corner.y === anchor.y ? 1 : (p.y - anchor.y) / (corner.y - anchor.y);
+      if (constrain) {
+        const scale = Math.max(Math.abs(sx), Math.abs(sy));
+        sx = sx < 0 ? -scale : scale;
+        sy = sy < 0 ? -scale : scale;
+      }
+      return scaling(sx, sy, anchor);
+    }
+
+    return translation(p.x - start.x, p.y - start.y);
+  }
+
+  private listen(): void {
+    this.addListener(this.canvas, 'wheel', (e) => this.wheelHandler(e as WheelEvent), { passive: false });
+    ['keydown', 'keyup'].forEach((name) =>
+      this.addListener(window, name, (e) => this.spaceHandler(e as KeyboardEvent)),
+    );
+
+    if (supportsPointerEvents()) {
+      this.updateTouchAction();
+      // Safari scrolls with the Apple Pencil as well as fingers unless its
+      // touches are cancelled
+      this.addListener(
+        this.canvas,
+        'touchstart',
+        (e) => {
+          if (this.isScrolledByFingers() && this.getPointers(e).some((p) => p.type === 'pen')) {
+            e.preventDefault();
+          }
+        },
+        { passive: false },
+      );
+
+      this.addListener(this.canvas, 'pointerdown', (e) => this.startStrokeHandler(e));
+      this.addListener(this.canvas, 'pointermove', (e) => this.drawStrokeHandler(e));
+      ['pointerup', 'pointerleave', 'pointercancel'].forEach((name) =>
+        this.addListener(this.canvas, name, (e) => this.endStrokeHandler(e)),
+      );
+      return;
     }
-    this.ctx.closePath();
 
-    if (stroke.color) {
-      this.ctx.strokeStyle = stroke.color;
+    ['mousedown', 'touchstart'].forEach((name) =>
+      this.addListener(this.canvas, name, (e) => this.startStrokeHandler(e)),
+    );
+    ['mousemove', 'touchmove'].forEach((name) => this.addListener(this.canvas, name, (e) => this.drawStrokeHandler(e)));
+    ['mouseup', 'mouseleave', 'touchend'].forEach((name) =>
+      this.addListener(this.canvas, name, (e) => this.endStrokeHandler(e)),
+    );
+  }
+
+  // Listen for an event until the sketchpad is destroyed
+  private addListener(
+    target: EventTarget,
+    name: string,
+    listener: (e: Event) => void,
+    opts?: AddEventListenerOptions,
+  ): void {
+    target.addEventListener(name, listener, opts);
+    this.removeListeners.push(() => target.removeEventListener(name, listener, opts));
+  }
+
+  private startStrokeHandler(e: Event): void {
+    const accepted = this.getPointersRelativeToCanvas(e).filter((p) => this.acceptsPointer(p));
+    // Touches forming a pinch belong to the gesture, so they are never
+    // taken for a palm
+    if (this.startsPinchGesture(accepted)) {
+      this.reserveGesture(accepted);
+      return;
     }
-    if (stroke.width) {
-      this.ctx.lineWidth = this.normalizeLineWidth(stroke.width);
+    const pointers = this.rejectPalms(accepted);
+    if (pointers.length === 0) {
+      this.ignoreEvent(e);
+      return;
     }
-    if (stroke.join) {
-      this.ctx.lineJoin = stroke.join;
+
+    e.preventDefault();
+    if (this.viewportGestures && this.isSpaceDown) {
+      pointers.forEach((p) => (this.activePointers[p.id] = { type: p.type, panAnchor: p.point }));
+      return;
     }
-    if (stroke.cap) {
-      this.ctx.lineCap = stroke.cap;
+    if (this.readOnly || this.playback) {
+      return;
     }
-    if (stroke.miterLimit) {
-      this.ctx.miterLimit = stroke.miterLimit;
+
+    const strokes: Array<Stroke> = [];
+    pointers.forEach((pointer) => {
+      if (this.isEraserActive) {
+        this.activePointers[pointer.id] = { type: pointer.type };
+        this.erasePoints(pointer.point);
+      } else if (isSelectionTool(this.tool)) {
+        // Only one pointer at a time selects or transforms
+        if (this.selectionGesture == null) {
+          this.activePointers[pointer.id] = { type: pointer.type, isSelecting: true };
+          this.startSelectionGesture(pointer.point);
+        }
+      } else if (this.tool === 'text') {
+        this.startTextEditing(pointer.point);
+      } else if (this.activeLayer.visible && !this.activeLayer.locked) {
+        const stroke =
+          this.tool === 'pen' ? this.pushStroke([pointer.point]) : this.pushShape(this.tool, pointer.point);
+        this.activePointers[pointer.id] = {
+          type: pointer.type,
+          stroke: stroke,
+          contact: pointer.contact,
+          startTime: Date.now(),
+          leash:
+            this.tool === 'pen' && this.stabilizer > 0 ? { pen: pointer.point, pointer: pointer.point } : undefined,
+        };
+        strokes.push(stroke);
+      }
+    });
+    this.redraw();
+
+    strokes.forEach((stroke) => this.events.emit('strokestart', { stroke: stroke.toObj() }));
+  }
+
+  private drawStrokeHandler(e: Event): void {
+    const allPointers = this.getPointersRelativeToCanvas(e).filter((p) => this.acceptsPointer(p));
+    if (allPointers.length === 0) {
+      this.ignoreEvent(e);
+      return;
     }
+    if (this.viewportGestures && this.moveViewGesture(allPointers)) {
+      e.preventDefault();
+      return;
+    }
+
+    const pointers = allPointers.filter((p) => this.activePointers[p.id] != null);
+    if (pointers.length === 0 && this.isGesturing()) return;
+
+    e.preventDefault();
+    if (pointers.length === 0) return;
+
+    const constrain = isConstrained(e);
+    const strokes: Array<Stroke> = [];
+    pointers.forEach((pointer) => {
+      const activePointer = this.activePointers[pointer.id];
+      const stroke = activePointer.stroke;
+      if (activePointer.panAnchor) {
+        this.dragView([{ anchor: activePointer.panAnchor, screen: this.toScreen(this.normalizePoint(pointer.point)) }]);
+      } else if (activePointer.isSelecting) {
+        this.updateSelectionGesture(pointer.point, constrain);
+      } else if (stroke?.shape) {
+        this.updateShape(stroke, pointer.point, constrain);
+        strokes.push(stroke);
+      } else if (stroke) {
+        const point = activePointer.leash ? this.pullLeash(activePointer.leash, pointer.point) : pointer.point;
+        if (point) {
+          this.pushPoint(stroke, point);
+          strokes.push(stroke);
+        }
+      } else {
+        this.erasePoints(pointer.point);
+      }
+    });
+    this.redraw();
+
+    strokes.forEach((stroke) => this.events.emit('strokeupdate', { stroke: stroke.toObj() }));
+  }
+
+  private endStrokeHandler(e: Event): void {
+    const allPointers = this.getPointersRelativeToCanvas(e);
+    const pointers = allPointers.filter((p) => this.acceptsPointer(p));
+    allPointers.forEach((p) => delete this.rejectedPointers[p.id]);
+    if (pointers.length === 0) {
+      this.ignoreEvent(e);
+      return;
+    }
+    if (this.endGesture(pointers)) return;
+
+    e.preventDefault();
+    const constrain = isConstrained(e);
+    pointers.forEach((pointer) => {
+      const activePointer = this.activePointers[pointer.id];
+      if (activePointer == null) return;
+      delete this.activePointers[pointer.id];
+
+      if (activePointer.panAnchor) {
+        return; // Panning leaves nothing to finish
+      }
 
-    this.ctx.stroke();
-  }
+      if (activePointer.isSelecting) {
+        this.updateSelectionGesture(pointer.point, constrain);
+        this.finishSelectionGesture();
+      } else if (activePointer.stroke) {
+        // A stabilized stroke ends where the pen is, rather than jumping to
+        // the pointer
+        const leash = activePointer.leash;
+        const point = leash ? this.pullLeash(leash, pointer.point) || leash.pen : pointer.point;
+        const stroke = this.finishStroke(activePointer.stroke, point, constrain);
+        if (stroke) {
+          this.commitStroke(stroke);
+        }
+        this.redraw();
+        if (stroke) {
+          this.events.emit('strokeend', { stroke: stroke.toObj() });
+        }
+      } else {
+        this.erasePoints(pointer.point);
+        const change = this.createNewStrokesAfterErasing();
+        this.redraw();
+        if (change.removed.length > 0) {
+          this.events.emit('erase', change);
+        }
+      }
 
-  private drawQuadraticCurveStroke(stroke: Stroke): void {
-    if (stroke.points == null) return;
+      if (this.onDrawEnd) {
+        this.onDrawEnd();
+      }
+    });
+  }
 
-    this.ctx.beginPath();
+  // Whether new touches turn the touches on the canvas into a pinch
+  // gesture that should be left to the host app, or that zooms the view
+  private startsPinchGesture(pointers: Array<PointerInputI>): boolean {
+    if (!this.reservePinchGestures && !this.viewportGestures) {
+      return false;
+    }
 
-    let originPt = this.normalizePoint(stroke.points[0]);
-    let controlPt = originPt;
-    let destinationPt = originPt;
-    if (stroke.points.length > 1) {
-      destinationPt = this.normalizePoint(this.midPoint(stroke.points[0], stroke.points[1]));
+    let touches = pointers.filter((p) => p.type === 'touch').length;
+    if (touches === 0) {
+      return false;
     }
-    if (!(originPt.skipped || (destinationPt && destinationPt.skipped))) {
-      this.ctx.moveTo(originPt.x, originPt.y);
-      this.ctx.quadraticCurveTo(controlPt.x, controlPt.y, destinationPt.x, destinationPt.y);
+    for (const id in this.activePointers) {
+      if (this.activePointers[id].type === 'touch') {
+        touches++;
+      }
     }
-    for (let i = 1; i < stroke.points.length - 1; i++) {
-      originPt = destinationPt;
-      controlPt = this.normalizePoint(stroke.points[i]);
-      destinationPt = this.normalizePoint(this.midPoint(stroke.points[i], stroke.points[i + 1]));
+    return touches > 1 || this.isGesturing();
+  }
 
-      if (!(originPt.skipped || (destinationPt && destinationPt.skipped))) {
-        this.ctx.quadraticCurveTo(controlPt.x, controlPt.y, destinationPt.x, destinationPt.y);
+  // Roll back any strokes being drawn by touch and ignore those touches
+  // until they are lifted
+  private reserveGesture(pointers: Array<PointerInputI>): void {
+    for (const id in this.activePointers) {
+      if (this.activePointers[id].type === 'touch') {
+        this.cancelPointer(Number(id));
+        this.gesturePointers[id] = true;
       }
     }
+    pointers.forEach((pointer) => {
+      if (pointer.type === 'touch') {
+        this.gesturePointers[pointer.id] = true;
+      }
+    });
+    this.redraw();
+  }
 
-    if (stroke.color) {
-      this.ctx.strokeStyle = stroke.color;
-    }
-    if (stroke.width) {
-      this.ctx.lineWidth = this.normalizeLineWidth(stroke.width);
-    }
-    if (stroke.join) {
-      this.ctx.lineJoin = stroke.join;
-    }
-    if (stroke.cap) {
-      this.ctx.lineCap = stroke.cap;
-    }
-    if (stroke.miterLimit) {
-      this.ctx.miterLimit = stroke.miterLimit;
+  // Roll back touch strokes that have only just started when a larger
+  // contact lands, as they were most likely drawn by the edge of a palm
+  // coming to rest. The larger contact is ignored until it's lifted
+  private rejectPalms(pointers: Array<PointerInputI>): Array<PointerInputI> {
+    if (!this.palmRejection) {
+      return pointers;
     }
 
-    this.ctx.stroke();
+    const now = Date.now();
+    const accepted = pointers.filter((pointer) => {
+      let isPalm = false;
+      for (const id in this.activePointers) {
+        const activePointer = this.activePointers[id];
+        if (
+          activePointer.stroke &&
+          activePointer.type === 'touch' &&
+          now - (activePointer.startTime || 0) < PALM_REJECTION_WINDOW &&
+          pointer.contact > (activePointer.contact || 0)
+        ) {
+          this.cancelPointer(Number(id));
+          isPalm = true;
+        }
+      }
+      if (isPalm) {
+        this.rejectedPointers[pointer.id] = true;
+      }
+      return !isPalm;
+    });
+    if (accepted.length < pointers.length) {
+      this.redraw();
+    }
+    return accepted;
   }
 
-  private pushStroke(points: Array<Point>): void {
-    this._strokes.push(
-      Stroke.fromObj({
-        points: points,
-        size: this.getLineWidthRelativeToCanvas(this.lineWidth),
-        color: this.lineColor,
-        cap: this.lineCap,
-        join: this.lineJoin,
-        miterLimit: this.lineMiterLimit,
-        isInterpolationDone: this.isInterpolationDone,
-      }),
-    );
+  // Stop following a pointer, rolling back the stroke it was drawing
+  private cancelPointer(id: number): void {
+    const stroke = this.activePointers[id].stroke;
+    delete this.activePointers[id];
+    if (stroke) {
+      this.removeStroke(stroke);
+      this.events.emit('strokecancel', { stroke: stroke.toObj() });
+    }
   }
 
-  private pushPoint(point: Point): void {
-    const stroke = this._strokes[this._strokes.length - 1];
-    if (stroke.points) {
-      stroke.points.push(point);
+  // Whether a pointer draws under the input policy, and hasn't been
+  // rejected as a palm. Pointers already drawing are followed to the end,
+  // even if the policy has changed since they started
+  private acceptsPointer(pointer: PointerInputI): boolean {
+    if (this.activePointers[pointer.id] != null || this.gesturePointers[pointer.id]) {
+      return true;
     }
+    return !this.rejectedPointers[pointer.id] && isAllowedByPolicy(this.inputPolicy, pointer.type);
   }
 
-  // Redraw the whole canvas
-  private redraw(): void {
-    this.clearCanvas();
-    if (this.isEraserActive) {
-      this._strokes.forEach((s) => this.drawStroke(s));
-    } else {
-      this._strokes.forEach((s, index) => {
-        if (index === this._strokes.length - 1) {
-          if (this.sketching) {
-            this.drawQuadraticCurveStroke(s);
-          } else {
-            this.drawStroke(s);
-          }
-        } else {
-          this.drawStroke(s);
-        }
-      });
+  // Leave an event from ignored pointers to the browser when fingers
+  // scroll the page
+  private ignoreEvent(e: Event): void {
+    if (!this.isScrolledByFingers()) {
+      e.preventDefault();
     }
   }
 
-  private listen(): void {
-    ['mousedown', 'touchstart'].forEach((name) =>
-      this.canvas.addEventListener(name, (e) => this.startStrokeHandler(e)),
-    );
-    ['mousemove', 'touchmove'].forEach((name) => this.canvas.addEventListener(name, (e) => this.drawStrokeHandler(e)));
-    ['mouseup', 'mouseleave', 'touchend'].forEach((name) =>
-      this.canvas.addEventListener(name, (e) => this.endStrokeHandler(e)),
-    );
+  private isScrolledByFingers(): boolean {
+    return this.fingerScrolling && !isAllowedByPolicy(this.inputPolicy, 'touch');
   }
 
-  private startStrokeHandler(e: Event): void {
-    e.preventDefault();
-    if (this.readOnly) {
-      return;
+  // Stop the browser from scrolling or zooming while a pen or finger
+  // draws, unless fingers scroll the page
+  private updateTouchAction(): void {
+    if (supportsPointerEvents()) {
+      this.canvas.style.touchAction = this.isScrolledByFingers() ? 'pan-x pan-y' : 'none';
     }
+  }
 
-    this.sketching = true;
-
-    const point = this.getCursorRelativeToCanvas(e);
-    if (this.isEraserActive) {
-      this.erasePoints(point);
-    } else {
-      this.pushStroke([point]);
+  // Release lifted gesture touches, returning true if the pointers
+  // belonged to the gesture
+  private endGesture(pointers: Array<PointerInputI>): boolean {
+    let ended = false;
+    pointers.forEach((pointer) => {
+      if (this.gesturePointers[pointer.id]) {
+        delete this.gesturePointers[pointer.id];
+        ended = true;
+      }
+    });
+    if (ended) {
+      // The fingers left grab the drawing afresh when they next move
+      this.gestureAnchors = {};
     }
-    this.redraw();
+    return ended;
   }
 
-  private drawStrokeHandler(e: Event): void {
-    const point = this.getCursorRelativeToCanvas(e);
-    e.preventDefault();
-    if (!this.sketching) return;
+  // Zoom and pan the view to follow the fingers of a gesture, returning
+  // true if the pointers belonged to the gesture
+  private moveViewGesture(pointers: Array<PointerInputI>): boolean {
+    let moved = false;
+    pointers.forEach((pointer) => {
+      if (!this.gesturePointers[pointer.id]) {
+        return;
+      }
+      const screen = this.toScreen(this.normalizePoint(pointer.point));
+      const anchor = this.gestureAnchors[pointer.id];
+      if (anchor) {
+        anchor.screen = screen;
+      } else {
+        this.gestureAnchors[pointer.id] = { anchor: pointer.point, screen: screen };
+      }
+      moved = true;
+    });
 
-    if (this.isEraserActive) {
-      this.erasePoints(point);
-    } else {
-      this.pushPoint(point);
+    if (moved) {
+      this.dragView(Object.keys(this.gestureAnchors).map((id) => this.gestureAnchors[Number(id)]));
     }
-    this.redraw();
+    return moved;
   }
 
-  private endStrokeHandler(e: Event): void {
-    e.preventDefault();
-    if (!this.sketching) return;
-    this.sketching = false;
-
-    if (isTouchEvent(e)) {
-      return; // touchend events do not have a position
+  // Move the view so the points of the drawing that were grabbed are
+  // under the pointers holding them. Two pointers zoom as well as pan,
+  // by how far apart they have moved
+  private dragView(anchors: Array<GestureAnchorI>): void {
+    const grabbed = anchors.slice(0, 2).map((a) => this.normalizePoint(new Point(a.anchor.x, a.anchor.y)));
+    const screen = anchors.slice(0, 2).map((a) => a.screen);
+    let zoom = this.view.zoom;
+    if (grabbed.length === 2) {
+      const distance = Math.hypot(grabbed[1].x - grabbed[0].x, grabbed[1].y - grabbed[0].y);
+      if (distance > 0) {
+        const spread = Math.hypot(screen[1].x - screen[0].x, screen[1].y - screen[0].y);
+        zoom = Math.min(Math.max(spread / distance, MIN_ZOOM), MAX_ZOOM);
+      }
     }
 
-    const point = this.getCursorRelativeToCanvas(e);
-    if (this.isEraserActive) {
-      this.erasePoints(point);
-    } else {
-      this.pushPoint(point);
-      this.createNewStrokesAfterInterpolation(this._strokes[this._strokes.length - 1], 2);
+    const average = (points: Array<{ x: number; y: number }>, axis: 'x' | 'y') =>
+      points.reduce((sum, p) => sum + p[axis], 0) / points.length;
+    this.setView({
+      zoom: zoom,
+      x: average(screen, 'x') - average(grabbed, 'x') * zoom,
+      y: average(screen, 'y') - average(grabbed, 'y') * zoom,
+    });
+  }
+
+  // Zoom about the cursor as the wheel scrolls
+  private wheelHandler(e: WheelEvent): void {
+    if (!this.viewportGestures) {
+      return;
     }
-    this.createNewStrokesAfterErasing();
-    this.redraw();
 
-    if (this.onDrawEnd) {
-      this.onDrawEnd();
+    e.preventDefault();
+    const rect = this.canvas.getBoundingClientRect();
+    const delta = e.deltaMode === WHEEL_DELTA_LINE ? e.deltaY * WHEEL_LINE_HEIGHT : e.deltaY;
+    this.zoomTo(this.view.zoom * Math.exp(-delta * WHEEL_ZOOM_SPEED), {
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+    });
+  }
+
+  // Track whether space is held down, for dragging the view. Spaces typed
+  // into text fields don't count
+  private spaceHandler(e: KeyboardEvent): void {
+    const target = e.target as HTMLElement | null;
+    if (e.key !== ' ' || (e.type === 'keydown' && target != null && /^(INPUT|TEXTAREA)$/.test(target.tagName))) {
+      return;
     }
+    this.isSpaceDown = e.type === 'keydown';
+  }
+
+  private isGesturing(): boolean {
+    return Object.keys(this.gesturePointers).length > 0;
   }
 
+  // Mark the points under the eraser as skipped on every visible, unlocked
+  // layer. Erasing works on copies of the strokes it touches so the
+  // originals can be restored by undo
   private erasePoints(cursor: Point): void {
-    const eraserSize = this.getLineWidthRelativeToCanvas(this.eraserSize) / 2;
+    // The eraser is the same size on screen at any zoom
+    const eraserSize = this.getLineWidthRelativeToCanvas(this.scaleSize(this.eraserSize) / this.view.zoom) / 2;
     const areaOfEraser = eraserSize * eraserSize;
+    const activeStrokes = this.getActiveStrokes();
+    const size = this.getCanvasSize();
+    const isUnderEraser = (point: PointI) => {
+      const dx = point.x - cursor.x;
+      const dy = point.y - cursor.y;
+      return dx * dx + dy * dy <= areaOfEraser;
+    };
+    // Most strokes are nowhere near the eraser, so their points aren't tested
+    const isNearEraser = (bounds: BoundsI) =>
+      Math.abs(cursor.x * size.width - (bounds.x + bounds.width / 2)) <= bounds.width / 2 + eraserSize * size.width &&
+      Math.abs(cursor.y * size.height - (bounds.y + bounds.height / 2)) <= bounds.height / 2 + eraserSize * size.height;
+
+    this._layers.forEach((layer) => {
+      if (!layer.visible || layer.locked) {
+        return;
+      }
 
-    this._strokes.forEach((stroke: Stroke) => {
-      // @ts-ignore
-      stroke.points.forEach((point: Point) => {
-        const dx = point.x - cursor.x;
-        const dy = point.y - cursor.y;
-        const distanceSquared = dx * dx + dy * dy;
+      layer.strokes.forEach((stroke: Stroke, index: number) => {
+        if (activeStrokes.indexOf(stroke) !== -1) {
+          return;
+        }
+        const bounds = stroke.getBounds(size);
+        if (bounds == null || !isNearEraser(bounds)) {
+          return;
+        }
+        // Strokes being erased already have their points filled in
+        const isErased = this.erasedStrokes[stroke.id]?.erased === stroke;
+        const points = isErased ? stroke.points || [] : stroke.getErasablePoints(size);
+        if (!points.some((p) => !p.skipped && isUnderEraser(p))) {
+          return;
+        }
 
-        if (distanceSquared <= areaOfEraser) {
-          point.skipped = true;
+        let erased = stroke;
+        if (!isErased) {
+          erased = Stroke.fromObj({ ...stroke.toObj(), points: points });
+          this.erasedStrokes[stroke.id] = { layer: layer, original: stroke, erased: erased };
+          layer.strokes[index] = erased;
         }
+
+        erased.points?.forEach((point: Point) => {
+          if (isUnderEraser(point)) {
+            point.skipped = true;
+          }
+        });
+        this.invalidateCache();
       });
     });
   }
 
-  private createNewStrokesAfterErasing(): void {
-    const newStrokes = [];
-    const previousStrokes: StrokeI[] = this.deepClone(this._strokes);
-    for (let i = 0; i < previousStrokes.length; i++) {
-      const points: PointI[] = previousStrokes[i].points || [];
-      const newStroke = {
-        // @ts-ignore
-        width: previousStrokes[i].width,
-        color: previousStrokes[i].color,
-        cap: previousStrokes[i].cap,
-        join: previousStrokes[i].join,
-        miterLimit: previousStrokes[i].miterLimit,
-        isInterpolationDone: previousStrokes[i].isInterpolationDone,
-        points: [],
-        toObj: () => {
-          return {
-            points: newStroke.points,
-            size: newStroke.width,
-            color: newStroke.color,
-            cap: newStroke.cap,
-            join: newStroke.join,
-            miterLimit: newStroke.miterLimit,
-            isInterpolationDone: newStroke.isInterpolationDone,
-          };
-        },
-      };
-      for (let j = 0; j < points.length; j++) {
-        if (points[j].skipped) {
-          if (newStroke.points.length > 0) {
-            newStrokes.push(this.deepClone(newStroke));
-            newStroke.points = [];
-          }
-        } else {
-          // @ts-ignore
-          newStroke.points.push(points[j]);
-          if (j + 1 == points.length) {
-            newStrokes.push(this.deepClone(newStroke));
-          }
+  // Split erased strokes into the runs of points that were not erased,
+  // recording the change so it can be undone
+  private createNewStrokesAfterErasing(): StrokeChangeI {
+    const change: StrokeChangeI = { added: [], removed: [] };
+    const commands: Array<CommandI> = [];
+    Object.keys(this.erasedStrokes).forEach((id) => {
+      const { layer, original, erased } = this.erasedStrokes[id];
+      const newStrokes: Array<Stroke> = [];
+      let points: Array<Point> = [];
+      (erased.points || []).forEach((point, j, all) => {
+        if (!point.skipped) {
+          points.push(point);
         }
+        if ((point.skipped || j + 1 === all.length) && points.length > 0) {
+          // What is left of an erased shape is no longer that shape
+          newStrokes.push(Stroke.fromCopy({ ...erased.toObj(), points: points, shape: undefined }));
+          points = [];
+        }
+      });
+
+      const index = layer.strokes.indexOf(erased);
+      if (index === -1) {
+        return; // Removed by another author while being erased
       }
+      layer.strokes.splice(index, 1, ...newStrokes);
+      change.removed.push(original.toObj());
+      newStrokes.forEach((s) => change.added.push(s.toObj()));
+      commands.push(new ReplaceStrokeCommand(layer.strokes, original, newStrokes, index));
+    });
+
+    this.erasedStrokes = {};
+    if (commands.length > 0) {
+      this.history.record(new CompositeCommand(commands));
     }
-    this._strokes = newStrokes;
+    return change;
   }
 
-  private createNewStrokesAfterInterpolation(stroke: Stroke, interval: number): void {
-    this._strokes.pop();
+  private createNewStrokesAfterInterpolation(stroke: Stroke, interval: number): Stroke {
     const newStroke = this.interpolateExistingShapePaths(stroke, interval);
-    this._strokes.push(newStroke);
+    const layer = this.getLayerOfStroke(stroke) as Layer;
+    layer.strokes[layer.strokes.indexOf(stroke)] = newStroke;
+    return newStroke;
   }
 
   private interpolateExistingShapePaths(stroke: Stroke, interval: number): Stroke {
     stroke.isInterpolationDone = true;
     const points: PointI[] = stroke.points || [];
-    const transformedPoints = points.map((point) => ({
-      x: point.x * this.canvas.width,
-      y: point.y * this.canvas.height,
+    const transformedPoints: PointI[] = points.map((point) => ({
+      x: point.x * this.width,
+      y: point.y * this.height,
       skipped: false,
+      pressure: point.pressure,
+      time: point.time,
     }));
     const newStroke = {
       width: stroke.width,
@@ -566,30 +2836,36 @@ export default class Sketchpad {
       join: stroke.join,
       miterLimit: stroke.miterLimit,
       isInterpolationDone: stroke.isInterpolationDone,
+      brush: stroke.brush,
       points: [],
       toObj: () => {
         return {
+          id: stroke.id,
+          author: stroke.author,
           points: newStroke.points,
-          size: newStroke.width,
+          width: newStroke.width,
           color: newStroke.color,
           cap: newStroke.cap,
           join: newStroke.join,
           miterLimit: newStroke.miterLimit,
           isInterpolationDone: newStroke.isInterpolationDone,
+          brush: newStroke.brush,
         };
       },
     };
 
     // @ts-ignore
     newStroke.points.push({
-      x: transformedPoints[0].x / this.canvas.width,
-      y: transformedPoints[0].y / this.canvas.height,
+      x: transformedPoints[0].x / this.width,
+      y: transformedPoints[0].y / this.height,
+      pressure: transformedPoints[0].pressure,
+      time: transformedPoints[0].time,
     });
     let originPt = transformedPoints[0];
     let controlPt = originPt;
     let destinationPt = originPt;
     if (transformedPoints.length > 1) {
-      destinationPt = this.midPoint(transformedPoints[0], transformedPoints[1]);
+      destinationPt = midPoint(transformedPoints[0], transformedPoints[1]);
       const distance = Math.hypot(destinationPt.x - originPt.x, destinationPt.y - originPt.y);
       const numIntervals = Math.max(1, Math.ceil(distance / interval));
 
@@ -597,14 +2873,20 @@ export default class Sketchpad {
 
       interpolatedPoints.forEach((point) => {
         // @ts-ignore
-        newStroke.points.push({ x: point.x / this.canvas.width, y: point.y / this.canvas.height, skipped: false });
+        newStroke.points.push({
+          x: point.x / this.width,
+          y: point.y / this.height,
+          skipped: false,
+          pressure: point.pressure,
+          time: point.time,
+        });
       });
     }
 
     for (let j = 1; j < transformedPoints.length - 1; j++) {
       originPt = destinationPt;
       controlPt = transformedPoints[j];
-      destinationPt = this.midPoint(transformedPoints[j], transformedPoints[j + 1]);
+      destinationPt = midPoint(transformedPoints[j], transformedPoints[j + 1]);
 
       const distance = Math.hypot(destinationPt.x - originPt.x, destinationPt.y - originPt.y);
       const numIntervals = Math.max(1, Math.ceil(distance / interval));
@@ -613,10 +2895,16 @@ export default class Sketchpad {
 
       interpolatedPoints.forEach((point) => {
         // @ts-ignore
-        newStroke.points.push({ x: point.x / this.canvas.width, y: point.y / this.canvas.height, skipped: false });
+        newStroke.points.push({
+          x: point.x / this.width,
+          y: point.y / this.height,
+          skipped: false,
+          pressure: point.pressure,
+          time: point.time,
+        });
       });
     }
-    return newStroke;
+    return Stroke.fromObj(newStroke.toObj());
   }
 
   private eraserModeOn(): void {
@@ -635,8 +2923,8 @@ export default class Sketchpad {
     // Create a circle cursor element
     const circleCursor = document.createElement('div') as HTMLDivElement;
     circleCursor.style.position = 'absolute';
-    circleCursor.style.width = `${this.eraserSize}px`;
-    circleCursor.style.height = `${this.eraserSize}px`;
+    circleCursor.style.width = `${this.scaleSize(this.eraserSize)}px`;
+    circleCursor.style.height = `${this.scaleSize(this.eraserSize)}px`;
     circleCursor.style.border = '2px solid #000';
     circleCursor.style.borderRadius = '50%';
     circleCursor.style.pointerEvents = 'none'; // Make the cursor element not intercept mouse events
@@ -653,8 +2941,8 @@ export default class Sketchpad {
 
       // Check if the mouse is within the canvas boundaries
       if (mouseX >= 0 && mouseX <= rect.width && mouseY >= 0 && mouseY <= rect.height) {
-        const x = mouseX - this.eraserSize / 2;
-        const y = mouseY - this.eraserSize / 2;
+        const x = this.canvas.offsetLeft + mouseX - this.scaleSize(this.eraserSize) / 2;
+        const y = this.canvas.offsetTop + mouseY - this.scaleSize(this.eraserSize) / 2;
         circleCursor.style.left = `${x}px`;
         circleCursor.style.top = `${y}px`;
         circleCursor.style.display = 'block'; // Show the cursor only when inside the canvas
@@ -666,7 +2954,8 @@ export default class Sketchpad {
     // Add event listeners to update circle cursor position
     window.addEventListener('mousemove', updateCircleCursor);
 
-    // Store update function for later removal
+    // Store the cursor and update function for later removal
+    this.circleCursor = circleCursor;
     // @ts-ignore
     this.updateCircleCursor = updateCircleCursor;
   }
@@ -676,8 +2965,8 @@ export default class Sketchpad {
 
     // Remove circle cursor and event listener
     if (this.updateCircleCursor) {
-      const circleCursor = this.canvas.parentNode?.lastChild as HTMLDivElement;
-      circleCursor?.remove();
+      this.circleCursor?.remove();
+      this.circleCursor = undefined;
       window.removeEventListener('mousemove', this.updateCircleCursor);
       // @ts-ignore
       this.updateCircleCursor = null;
@@ -685,34 +2974,188 @@ export default class Sketchpad {
   }
 
   private interpolateQuadraticCurve(
-    originPt: { x: number; y: number },
-    controlPt: { x: number; y: number },
-    destinationPt: { x: number; y: number },
+    originPt: { x: number; y: number; pressure?: number; time?: number },
+    controlPt: { x: number; y: number; pressure?: number; time?: number },
+    destinationPt: { x: number; y: number; pressure?: number; time?: number },
     numPoints: number,
   ) {
     const interpolatedPoints = [];
     for (let pt = 0; pt < numPoints; pt += 1) {
       const t = pt / numPoints;
-      const x = Math.pow(1 - t, 2) * originPt.x + 2 * (1 - t) * t * controlPt.x + Math.pow(t, 2) * destinationPt.x;
-      const y = Math.pow(1 - t, 2) * originPt.y + 2 * (1 - t) * t * controlPt.y + Math.pow(t, 2) * destinationPt.y;
-      interpolatedPoints.push({ x, y });
+      const interpolate = (origin?: number, control?: number, destination?: number) => {
+        if (origin == null || control == null || destination == null) {
+          return undefined;
+        }
+        return Math.pow(1 - t, 2) * origin + 2 * (1 - t) * t * control + Math.pow(t, 2) * destination;
+      };
+      const x = interpolate(originPt.x, controlPt.x, destinationPt.x) as number;
+      const y = interpolate(originPt.y, controlPt.y, destinationPt.y) as number;
+      const pressure = interpolate(originPt.pressure, controlPt.pressure, destinationPt.pressure);
+      const time = interpolate(originPt.time, controlPt.time, destinationPt.time);
+      interpolatedPoints.push({ x, y, pressure, time });
     }
     return interpolatedPoints;
   }
+}
+
+// Mouse events carry no pointer ID, so they share a fixed one
+const MOUSE_POINTER_ID = -1;
+// Pixels by which duplicated strokes are offset from the originals
+const DUPLICATE_OFFSET = 10;
+const ROTATION_STEP = Math.PI / 12;
+const SELECTION_COLOR = '#1a73e8';
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 32;
+// Zoom factor for each pixel the wheel scrolls
+const WHEEL_ZOOM_SPEED = 0.002;
+// Milliseconds the container must keep its size before the canvas is
+// resized to fit it, so it isn't redrawn on every frame of a resize
+const AUTO_RESIZE_DELAY = 100;
+// WheelEvent.DOM_DELTA_LINE, and the pixels scrolled for each line
+const WHEEL_DELTA_LINE = 1;
+const WHEEL_LINE_HEIGHT = 16;
+// Pixels left around the drawing by `fitToContent`
+const FIT_PADDING = 20;
+// Milliseconds after a touch stroke starts in which a larger contact rolls
+// it back as a palm
+const PALM_REJECTION_WINDOW = 500;
+// ID of the first layer, the same on every sketchpad so that strokes drawn
+// before anyone adds a layer land in the same layer everywhere
+const DEFAULT_LAYER_ID = 'layer-1';
+
+// Strokes copied by any sketchpad on the page, ready to be pasted
+let clipboard: Array<StrokeI> = [];
+
+// Call back on the next animation frame, or soon where there are no
+// animation frames, such as in Node
+function requestFrame(callback: () => void): void {
+  if (typeof requestAnimationFrame === 'function') {
+    requestAnimationFrame(() => callback());
+  } else {
+    setTimeout(callback, 16);
+  }
+}
+
+// Replace every method and property of a destroyed sketchpad with one that
+// throws, so using it fails clearly
+function disableSketchpad(pad: Sketchpad): void {
+  const fail = () => {
+    throw new Error('Sketchpad has been destroyed');
+  };
+  Object.getOwnPropertyNames(Sketchpad.prototype).forEach((name) => {
+    if (name !== 'constructor' && name !== 'destroy') {
+      Object.defineProperty(pad, name, { get: fail, configurable: true });
+    }
+  });
+}
 
-  private deepClone<T>(obj: T): T {
-    return JSON.parse(JSON.stringify(obj)) as T;
+function getDevicePixelRatio(): number {
+  return window.devicePixelRatio || 1;
+}
+
+// Copy a stroke down to its points and shape, so the copy can be changed
+// without touching the original
+function copyStroke(stroke: StrokeI): StrokeI {
+  const copy = Stroke.fromObj(stroke).toObj();
+  if (stroke.shape) {
+    copy.shape = { ...stroke.shape, start: { ...stroke.shape.start }, end: { ...stroke.shape.end } };
   }
+  return copy;
+}
+
+// Random enough that strokes drawn by different authors never share an ID
+function createId(): string {
+  return Math.random().toString(36).slice(2, 10) + Math.random().toString(36).slice(2, 10);
 }
 
 function isTouchEvent(e: Event): boolean {
   return e.type.indexOf('touch') !== -1; // v2.0 - Switch to startsWith
 }
 
-interface PointI {
+// Whether shapes should be constrained to squares, circles and 45° angles
+function isConstrained(e: Event): boolean {
+  return (e as MouseEvent).shiftKey === true;
+}
+
+// Whether a pointer event reports the pointer lifting or leaving
+function isEndEvent(e: Event): boolean {
+  return ['pointerup', 'pointerleave', 'pointercancel'].indexOf(e.type) !== -1;
+}
+
+function isPointerEvent(e: Event): boolean {
+  return e.type.indexOf('pointer') === 0;
+}
+
+// Whether the input policy lets a type of pointer draw
+function isAllowedByPolicy(policy: InputPolicy, type: string): boolean {
+  if (policy === 'pen') {
+    return type === 'pen';
+  }
+  if (policy === 'pen-and-mouse') {
+    return type === 'pen' || type === 'mouse';
+  }
+  return true;
+}
+
+function supportsPointerEvents(): boolean {
+  return typeof window !== 'undefined' && 'PointerEvent' in window;
+}
+
+function supportsResizeObserver(): boolean {
+  return typeof window !== 'undefined' && 'ResizeObserver' in window;
+}
+
+// Make the changes from `from` to `to` to a list that may also hold items
+// of neither. Those items stay where they are, and items added back go
+// after the item they followed in `to`
+function rebaseList<T extends { readonly id: string }>(list: Array<T>, from: Array<T>, to: Array<T>): void {
+  const indexInFrom = indexItems(from);
+  const indexInTo = indexItems(to);
+  const kept = list.filter((item) => indexInFrom(item) === -1 || indexInTo(item) !== -1);
+
+  // Put the items of `to` in its order, in the places they already take
+  const slots: Array<number> = [];
+  kept.forEach((item, i) => {
+    if (indexInTo(item) !== -1) {
+      slots.push(i);
+    }
+  });
+  const ordered = slots.map((i) => kept[i]).sort((a, b) => indexInTo(a) - indexInTo(b));
+  slots.forEach((slot, i) => (kept[slot] = ordered[i]));
+
+  const indexInKept = indexItems(kept);
+  const added: Array<Array<T>> = kept.map(() => []);
+  const result: Array<T> = []; // Starting with the items added before every kept item
+  let previous = -1;
+  to.forEach((item) => {
+    if (indexInKept(item) !== -1) {
+      previous = indexInKept(item);
+    } else if (indexInFrom(item) === -1) {
+      (previous === -1 ? result : added[previous]).push(item);
+    }
+  });
+
+  kept.forEach((item, i) => result.push(item, ...added[i]));
+  list.splice(0, list.length, ...result);
+}
+
+// Find where items are in a list without searching it. Items are looked up
+// by ID, but only the same item is found: an edited text keeps its ID
+function indexItems<T extends { readonly id: string }>(items: Array<T>): (item: T) => number {
+  const index: { [id: string]: Array<number> } = {};
+  items.forEach((item, i) => (index[item.id] = index[item.id] || []).push(i));
+  return (item) => {
+    const found = (index[item.id] || []).filter((i) => items[i] === item);
+    return found.length > 0 ? found[0] : -1;
+  };
+}
+
+export interface PointI {
   readonly x: number;
   readonly y: number;
-  readonly skipped: boolean;
+  readonly skipped?: boolean;
+  readonly pressure?: number; // 0 to 1, only recorded for pressure-sensitive input
+  readonly time?: number; // Milliseconds since the epoch, only recorded with `recordTiming`
 }
 
 class Point implements PointI {
@@ -720,44 +3163,260 @@ class Point implements PointI {
     public x: number,
     public y: number,
     public skipped: boolean = false,
+    public pressure?: number,
+    public time?: number,
   ) {}
 }
 
-interface RectI {
+interface PointerInputI {
+  readonly id: number;
+  readonly type: string; // 'mouse', 'pen' or 'touch'
+  readonly point: Point;
+  readonly contact: number; // Area of the contact's bounding box in square pixels; 0 when unknown
+}
+
+interface EraserCacheI {
+  readonly width: number; // Of the canvas the rest was worked out for
+  readonly height: number;
+  bounds?: BoundsI;
+  points?: Array<PointI>;
+}
+
+interface ErasedStrokeI {
+  readonly layer: Layer;
+  readonly original: Stroke;
+  readonly erased: Stroke; // Copy of the original with erased points skipped
+}
+
+interface TextEditorI {
+  readonly element: HTMLTextAreaElement;
+  readonly layer: Layer;
+  readonly original?: TextBox; // Unset for new text
+  readonly text: TextI;
+}
+
+interface PlaybackI {
+  readonly timeline: TimelineI<Stroke>;
+  readonly entries: { [strokeId: string]: TimelineEntryI<Stroke> };
+  position: number; // Milliseconds into the timeline
+  speed: number;
+  isPlaying: boolean;
+  isFrameRequested: boolean;
+  lastFrameTime: number;
+}
+
+// Where a committed stroke sits
+interface PlacementI {
+  readonly layer: string;
+  readonly index: number;
+  readonly stroke: Stroke;
+}
+
+interface ActivePointerI {
+  readonly type: string;
+  readonly stroke?: Stroke; // Unset while erasing, selecting or panning
+  readonly isSelecting?: boolean;
+  readonly panAnchor?: PointI; // Point of the drawing being dragged when panning
+  readonly contact?: number; // Of the pointer drawing a stroke, when it started
+  readonly startTime?: number; // When the stroke started, in milliseconds since the epoch
+  readonly leash?: LeashI; // Set while the stabilizer steadies the stroke
+}
+
+// Ties the pen of a stabilized stroke to the pointer drawing it
+interface LeashI {
+  pen: Point; // Where the stroke has been drawn to
+  pointer: Point;
+}
+
+// A finger zooming or panning the view
+interface GestureAnchorI {
+  readonly anchor: PointI; // Point of the drawing the finger grabbed
+  screen: { x: number; y: number }; // Where the finger is now, in pixels on the canvas
+}
+
+type SelectionMode = 'box' | 'lasso' | 'move' | 'scale' | 'rotate';
+
+// A selection being dragged out, or the selection being transformed.
+// Points are in pixels
+interface SelectionGestureI {
+  readonly mode: SelectionMode;
+  readonly start: Point;
+  path: Array<Point>;
+  readonly bounds?: BoundsI; // Of the selection when the gesture started
+  readonly handle?: HandleType;
+  readonly originals: Array<Stroke>; // Selected strokes being transformed
+  preview: Array<Stroke>; // Transformed copies of the originals
+  matrix?: MatrixI;
+}
+
+export type Tool = 'pen' | 'text' | ShapeType | SelectionTool;
+
+export type AutoResizeMode = 'fit-width' | 'fit-height' | 'contain';
+
+// Which pointers draw: any of them, only pens, or pens and mice
+export type InputPolicy = 'any' | 'pen' | 'pen-and-mouse';
+
+export interface RectI {
   readonly width: number;
   readonly height: number;
 }
 
-interface DataI {
-  aspectRatio?: number;
+export interface DataI {
+  version?: number; // Unset in data saved before versioning
+  aspectRatio?: number; // v2.0 - Remove; data saved before version 2
+  strokes?: Array<StrokeI>; // v2.0 - Remove; data saved before layers existed
+  layers?: Array<LayerI>;
+}
+
+export interface LayerI {
+  id?: string;
+  name?: string;
+  visible?: boolean;
+  locked?: boolean;
+  opacity?: number; // 0 to 1
   strokes?: Array<StrokeI>;
+  texts?: Array<TextI>; // Drawn above the layer's strokes
+}
+
+// Typed text, positioned and sized relative to the canvas like strokes
+export interface TextI {
+  id?: string;
+  author?: string;
+  text: string; // Lines are split by "\n"
+  x: number; // Left edge
+  y: number; // Top edge
+  size: number; // Font size, relative to the canvas width
+  font?: string; // Font family
+  color?: string;
 }
 
-interface LineOptionsI {
+export interface TextOptionsI {
+  size?: number; // Font size in pixels
+  font?: string;
+  color?: string;
+}
+
+export interface LineOptionsI {
   size?: number;
   color?: string;
   cap?: CanvasLineCap;
   join?: CanvasLineJoin;
   miterLimit?: number;
   isInterpolationDone?: boolean;
+  brush?: BrushType; // Drawn as a pen when unset
+  stabilizer?: number; // Pixels the pen trails behind the pointer, steadying shaky strokes; 0 (off) by default
 }
 
-interface SketchpadOptionsI {
+export interface SketchpadOptionsI {
   backgroundColor?: string;
+  background?: BackgroundI; // An image or paper template, drawn over the background color
   readOnly?: boolean;
   width?: number;
   height?: number;
   aspectRatio?: number;
   line?: LineOptionsI;
+  text?: TextOptionsI;
   data?: DataI;
-  onDrawEnd?: () => void;
+  onDrawEnd?: () => void; // v2.0 - Remove; use `on('strokeend')`
+  tool?: Tool;
+  reservePinchGestures?: boolean; // Leave two-finger touches to the host app instead of drawing them
+  viewportGestures?: boolean; // Zoom with the wheel or a pinch, and pan with space-drag or two fingers
+  inputPolicy?: InputPolicy; // Which pointers draw; any of them by default
+  palmRejection?: boolean; // Roll back touch strokes when a larger contact lands just after they start
+  fingerScrolling?: boolean; // Let fingers scroll the page when the input policy leaves them out of drawing
+  autoResize?: AutoResizeMode; // Resize the canvas as its container is resized, like `setAutoResize`
+  pixelRatio?: number; // Backing store pixels for each pixel of the canvas; the screen's `devicePixelRatio` by default
+  historyDepth?: number; // Number of changes that can be undone, unlimited by default
+  authorId?: string; // Identifies this sketchpad's changes when collaborating; random by default
+  recordTiming?: boolean; // Record when each point is drawn, so drawings can be played back at the pace they were drawn
+  simplifyTolerance?: number; // Simplify strokes as they are drawn, like `simplify`; off by default
 }
 
-interface StrokeI extends LineOptionsI {
+export interface StrokeI extends Omit<LineOptionsI, 'size'> {
+  id?: string; // Unset in data saved before strokes had IDs
+  author?: string;
+  width?: number; // Relative to the canvas width
   points?: Array<PointI>;
+  shape?: ShapeI; // Set for strokes drawn with a shape tool; `points` hold its outline
+}
+
+export interface StrokeEventI {
+  readonly stroke: StrokeI;
+}
+
+export interface SelectionEventI {
+  readonly strokes: Array<StrokeI>;
+}
+
+// How the drawing is shown on the canvas: scaled by `zoom`, with its top
+// left corner `x` and `y` pixels from the canvas's
+export interface ViewI {
+  readonly zoom: number;
+  readonly x: number;
+  readonly y: number;
+}
+
+export interface ImageOptionsI {
+  background?: boolean | string; // Include the background color, image and template; true by default. A color is used instead of them
+  pixelRatio?: number; // Image pixels for each pixel of the canvas; 1 by default. Use `getPixelRatio()` for the screen's density
+  quality?: number; // From 0 to 1, for lossy types such as image/jpeg
+  crop?: boolean; // Crop the image to the strokes and text rather than the canvas
+  padding?: number; // Pixels of the canvas added around the image's edges; 0 by default
+}
+
+export interface PDFOptionsI {
+  background?: boolean; // Fill the page with the background color; true by default
+}
+
+// Texts added and removed by a single change
+export interface TextChangeI {
+  readonly added: Array<TextI>;
+  readonly removed: Array<TextI>;
+}
+
+export interface SimplifyEventI {
+  readonly strokes: Array<StrokeI>; // The simplified strokes
+  readonly removedPoints: number;
+}
+
+export interface PlaybackEventI {
+  readonly position: number; // Milliseconds into playback
+  readonly duration: number;
+}
+
+// Strokes added and removed by a single change
+export interface StrokeChangeI {
+  readonly added: Array<StrokeI>;
+  readonly removed: Array<StrokeI>;
+}
+
+// Payloads of the events that can be subscribed to with `on`
+export interface SketchpadEventsI {
+  strokestart: StrokeEventI;
+  strokeupdate: StrokeEventI;
+  strokeend: StrokeEventI;
+  strokecancel: StrokeEventI; // A stroke being drawn was rolled back, for a gesture or a palm
+  erase: StrokeChangeI;
+  undo: StrokeChangeI;
+  redo: StrokeChangeI;
+  clear: StrokeChangeI;
+  load: StrokeChangeI;
+  resize: RectI;
+  select: SelectionEventI;
+  transform: StrokeChangeI; // Selected strokes moved, scaled, rotated or recolored
+  delete: StrokeChangeI;
+  paste: StrokeChangeI; // Strokes pasted or duplicated
+  operation: OperationI; // A local change, to be sent to other sketchpads
+  remote: StrokeChangeI; // An operation from another sketchpad was applied
+  progress: PlaybackEventI;
+  simplify: SimplifyEventI;
+  text: TextChangeI; // Text was added, changed or removed
+  view: ViewI; // The drawing was zoomed or panned
 }
 
 class Stroke {
+  id = '';
+  author?: string;
   points?: Array<Point>;
   width?: number;
   color?: string;
@@ -765,28 +3424,213 @@ class Stroke {
   join?: CanvasLineJoin;
   miterLimit?: number;
   isInterpolationDone?: boolean;
+  brush?: BrushType;
+  shape?: ShapeI;
+  private eraserCache?: EraserCacheI;
 
   static fromObj(s: StrokeI): Stroke {
     const stroke = new Stroke();
-    stroke.points = s.points;
-    stroke.width = s.size;
+    stroke.id = s.id ?? createId();
+    stroke.author = s.author;
+    stroke.points = s.points?.map((p) => new Point(p.x, p.y, p.skipped, p.pressure, p.time));
+    stroke.width = s.width;
     stroke.color = s.color;
     stroke.cap = s.cap;
     stroke.join = s.join;
     stroke.miterLimit = s.miterLimit;
     stroke.isInterpolationDone = s.isInterpolationDone;
+    stroke.brush = s.brush;
+    stroke.shape = s.shape;
     return stroke;
   }
 
+  // Create a new stroke, with an ID of its own, from a changed copy of
+  // another stroke
+  static fromCopy(s: StrokeI): Stroke {
+    return Stroke.fromObj({ ...s, id: undefined });
+  }
+
+  // Get the pixel bounds of the points that haven't been erased
+  getBounds(size: RectI): BoundsI | undefined {
+    const cache = this.getEraserCache(size);
+    if (!('bounds' in cache)) {
+      cache.bounds = getBounds([this.toObj()], size);
+    }
+    return cache.bounds;
+  }
+
+  // Get the points for the eraser to test. Points dropped from interpolated
+  // strokes when they were simplified are filled back in, so the eraser
+  // cuts them wherever it touches them
+  getErasablePoints(size: RectI): Array<PointI> {
+    const cache = this.getEraserCache(size);
+    if (cache.points == null) {
+      const points = this.points || [];
+      const densified = this.isInterpolationDone ? densifyPoints(points, size) : points;
+      // Strokes that weren't simplified have no points to fill in
+      cache.points = densified.length > points.length ? densified : points;
+    }
+    return cache.points;
+  }
+
+  // Committed strokes don't change, so what the eraser needs is only
+  // worked out again for a new canvas size
+  private getEraserCache(size: RectI): EraserCacheI {
+    if (this.eraserCache == null || this.eraserCache.width !== size.width || this.eraserCache.height !== size.height) {
+      this.eraserCache = { width: size.width, height: size.height };
+    }
+    return this.eraserCache;
+  }
+
   toObj(): StrokeI {
     return {
+      id: this.id,
+      author: this.author,
       points: this.points,
-      size: this.width,
+      width: this.width,
       color: this.color,
       cap: this.cap,
       join: this.join,
       miterLimit: this.miterLimit,
       isInterpolationDone: this.isInterpolationDone,
+      brush: this.brush,
+      shape: this.shape,
+    };
+  }
+}
+
+class Layer {
+  visible = true;
+  locked = false;
+  opacity = 1;
+  readonly strokes: Array<Stroke> = []; // Bottom stroke first
+  readonly texts: Array<TextBox> = []; // Bottom text first
+
+  constructor(
+    readonly id: string,
+    public name: string,
+  ) {}
+
+  static fromObj(l: LayerI, id: string, name: string): Layer {
+    const layer = new Layer(id, l.name ?? name);
+    layer.visible = l.visible ?? true;
+    layer.locked = l.locked ?? false;
+    layer.opacity = l.opacity ?? 1;
+    (l.strokes || []).forEach((s) => layer.strokes.push(Stroke.fromObj(s)));
+    (l.texts || []).forEach((t) => layer.texts.push(TextBox.fromObj(t)));
+    return layer;
+  }
+
+  toObj(): LayerI {
+    return {
+      id: this.id,
+      name: this.name,
+      visible: this.visible,
+      locked: this.locked,
+      opacity: this.opacity,
+      strokes: this.strokes.map((s) => s.toObj()),
+      texts: this.texts.map((t) => t.toObj()),
+    };
+  }
+}
+
+class TextBox implements TextI {
+  id = '';
+  author?: string;
+  text = '';
+  x = 0;
+  y = 0;
+  size = 0;
+  font?: string;
+  color?: string;
+
+  static fromObj(t: TextI): TextBox {
+    const text = new TextBox();
+    text.id = t.id ?? createId();
+    text.author = t.author;
+    text.text = t.text;
+    text.x = t.x;
+    text.y = t.y;
+    text.size = t.size;
+    text.font = t.font;
+    text.color = t.color;
+    return text;
+  }
+
+  toObj(): TextI {
+    return {
+      id: this.id,
+      author: this.author,
+      text: this.text,
+      x: this.x,
+      y: this.y,
+      size: this.size,
+      font: this.font,
+      color: this.color,
     };
   }
 }
+
+// Adds a finished stroke
+class AddStrokeCommand implements CommandI {
+  constructor(
+    private readonly strokes: Array<Stroke>,
+    readonly stroke: Stroke,
+    private readonly index: number,
+  ) {}
+
+  apply(): void {
+    this.strokes.splice(Math.min(this.index, this.strokes.length), 0, this.stroke);
+  }
+
+  revert(): void {
+    const index = this.strokes.indexOf(this.stroke);
+    if (index !== -1) {
+      this.strokes.splice(index, 1);
+    }
+  }
+}
+
+// Replaces a stroke with what is left of it after erasing
+class ReplaceStrokeCommand implements CommandI {
+  constructor(
+    private readonly strokes: Array<Stroke>,
+    private readonly original: Stroke,
+    private readonly replacements: Array<Stroke>,
+    private readonly index: number,
+  ) {}
+
+  apply(): void {
+    const index = this.strokes.indexOf(this.original);
+    if (index !== -1) {
+      this.strokes.splice(index, 1, ...this.replacements);
+    }
+  }
+
+  revert(): void {
+    const index = this.replacements.length > 0 ? this.strokes.indexOf(this.replacements[0]) : this.index;
+    // Replacements may have been removed by another author since
+    if (index !== -1) {
+      this.strokes.splice(index, this.replacements.length, this.original);
+    }
+  }
+}
+
+// Changes a list to a new list of items, as clearing, loading or reordering
+// layers does. Only the items it adds, removes or moves are touched, so
+// undoing it keeps what other authors have added since
+class ResetListCommand<T extends { readonly id: string }> implements CommandI {
+  constructor(
+    private readonly list: Array<T>,
+    private readonly before: Array<T>,
+    private readonly after: Array<T>,
+  ) {}
+
+  apply(): void {
+    rebaseList(this.list, this.before, this.after);
+  }
+
+  revert(): void {
+    rebaseList(this.list, this.after, this.before);
+  }
+}
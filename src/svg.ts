@@ -0,0 +1,275 @@
+import { getBrushStyle } from './brushes';
+import type { DataI, LayerI, PointI, RectI, StrokeI, TextI } from './sketchpad';
+import { DEFAULT_FONT, DEFAULT_TEXT_COLOR, LINE_HEIGHT } from './text';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// Convert strokes into a standalone SVG document. Stroke points and widths
+// are relative to the canvas size, so they are scaled back up to `size`
+export function strokesToSVG(strokes: Array<StrokeI>, size: RectI, backgroundColor?: string): string {
+  return layersToSVG([{ strokes: strokes }], size, backgroundColor);
+}
+
+// Convert layers into a standalone SVG document, bottom layer first, with
+// the text of each layer above its strokes. Translucent layers are wrapped
+// in a group carrying their opacity
+export function layersToSVG(layers: Array<LayerI>, size: RectI, backgroundColor?: string): string {
+  const lines = [
+    `<svg xmlns="${SVG_NAMESPACE}" width="${formatNumber(size.width)}" height="${formatNumber(size.height)}" ` +
+      `viewBox="0 0 ${formatNumber(size.width)} ${formatNumber(size.height)}">`,
+  ];
+
+  if (backgroundColor) {
+    lines.push(
+      `<rect width="${formatNumber(size.width)}" height="${formatNumber(size.height)}" ` +
+        `fill="${escapeAttribute(backgroundColor)}"/>`,
+    );
+  }
+
+  layers.forEach((layer) => {
+    const elements: Array<string> = [];
+    (layer.strokes || []).forEach((stroke) => {
+      const path = strokeToPath(stroke, size);
+      if (path) {
+        elements.push(path);
+      }
+    });
+    (layer.texts || []).forEach((text) => elements.push(textToSVG(text, size)));
+
+    if (layer.opacity != null && layer.opacity < 1 && elements.length > 0) {
+      lines.push(`<g opacity="${formatNumber(layer.opacity)}">`, ...elements, '</g>');
+    } else {
+      lines.push(...elements);
+    }
+  });
+
+  lines.push('</svg>');
+  return lines.join('\n');
+}
+
+// Parse an SVG document into sketchpad data. Only the subset written by
+// `strokesToSVG` is supported: a root <svg> with a viewBox (or width and
+// height) and <path> elements made of M/L commands. Every sub-path becomes
+// its own stroke, matching how erased strokes are split
+export function svgToData(svg: string): DataI {
+  const root = /<svg\b([^>]*)>/i.exec(svg);
+  if (root == null) {
+    throw new Error('Invalid SVG: missing <svg> element');
+  }
+
+  const viewBox = parseViewBox(parseAttributes(root[1]));
+  const strokes: Array<StrokeI> = [];
+  const pathPattern = /<path\b([^>]*?)\/?>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pathPattern.exec(svg)) != null) {
+    const attrs = parseAttributes(match[1]);
+    const subPaths = parsePathData(attrs['d'] || '');
+    const width = attrs['stroke-width'] != null ? parseNumber(attrs['stroke-width'], 'stroke-width') : undefined;
+    const miterLimit =
+      attrs['stroke-miterlimit'] != null ? parseNumber(attrs['stroke-miterlimit'], 'stroke-miterlimit') : undefined;
+
+    subPaths.forEach((points) => {
+      strokes.push({
+        points: points.map((p) => ({
+          x: (p.x - viewBox.x) / viewBox.width,
+          y: (p.y - viewBox.y) / viewBox.height,
+          skipped: false,
+        })),
+        width: width != null ? width / viewBox.width : undefined,
+        color: attrs['stroke'],
+        cap: attrs['stroke-linecap'] as CanvasLineCap | undefined,
+        join: attrs['stroke-linejoin'] as CanvasLineJoin | undefined,
+        miterLimit: miterLimit,
+      });
+    });
+  }
+
+  return { strokes: strokes };
+}
+
+// Build a <path> for a stroke, starting a new sub-path wherever points
+// have been skipped by the eraser. Runs of a single point draw nothing on
+// the canvas, so they are left out here as well
+function strokeToPath(stroke: StrokeI, size: RectI): string | undefined {
+  const commands: Array<string> = [];
+  let run: Array<PointI> = [];
+
+  const flush = () => {
+    if (run.length > 1) {
+      run.forEach((p, i) => {
+        commands.push(`${i === 0 ? 'M' : 'L'}${formatNumber(p.x * size.width)} ${formatNumber(p.y * size.height)}`);
+      });
+    }
+    run = [];
+  };
+
+  (stroke.points || []).forEach((point) => {
+    if (point.skipped) {
+      flush();
+    } else {
+      run.push(point);
+    }
+  });
+  flush();
+
+  if (commands.length === 0) {
+    return undefined;
+  }
+
+  // Brushes are drawn as far as SVG allows: a calligraphy nib's width is
+  // left constant
+  const brush = getBrushStyle(stroke.brush);
+  const cap = brush.cap || stroke.cap;
+  const attrs = [`d="${commands.join(' ')}"`, 'fill="none"'];
+  if (stroke.color) {
+    attrs.push(`stroke="${escapeAttribute(stroke.color)}"`);
+  }
+  if (stroke.width) {
+    attrs.push(`stroke-width="${formatNumber(stroke.width * size.width)}"`);
+  }
+  if (cap) {
+    attrs.push(`stroke-linecap="${cap}"`);
+  }
+  if (stroke.join) {
+    attrs.push(`stroke-linejoin="${stroke.join}"`);
+  }
+  if (stroke.miterLimit) {
+    attrs.push(`stroke-miterlimit="${formatNumber(stroke.miterLimit)}"`);
+  }
+  if (brush.dash && stroke.width) {
+    const width = stroke.width * size.width;
+    attrs.push(`stroke-dasharray="${brush.dash.map((d) => formatNumber(d * width)).join(' ')}"`);
+  }
+  if (brush.alpha < 1) {
+    attrs.push(`stroke-opacity="${formatNumber(brush.alpha)}"`);
+  }
+  if (brush.composite === 'multiply') {
+    attrs.push('style="mix-blend-mode:multiply"');
+  }
+  return `<path ${attrs.join(' ')}/>`;
+}
+
+// Build a <text> for typed text, with a <tspan> for each line
+function textToSVG(text: TextI, size: RectI): string {
+  const x = formatNumber(text.x * size.width);
+  const fontSize = text.size * size.width;
+  const lines = text.text
+    .split('\n')
+    .map(
+      (line, i) =>
+        `<tspan x="${x}" y="${formatNumber(text.y * size.height + i * fontSize * LINE_HEIGHT)}">` +
+        `${escapeAttribute(line)}</tspan>`,
+    );
+  return (
+    `<text font-family="${escapeAttribute(text.font || DEFAULT_FONT)}" font-size="${formatNumber(fontSize)}" ` +
+    `fill="${escapeAttribute(text.color || DEFAULT_TEXT_COLOR)}" dominant-baseline="text-before-edge">` +
+    `${lines.join('')}</text>`
+  );
+}
+
+function parseViewBox(attrs: Record<string, string>): { x: number; y: number; width: number; height: number } {
+  if (attrs['viewBox'] != null) {
+    const values = attrs['viewBox'].trim().split(/[\s,]+/);
+    if (values.length !== 4) {
+      throw new Error(`Invalid SVG: malformed viewBox "${attrs['viewBox']}"`);
+    }
+    const [x, y, width, height] = values.map((v) => parseNumber(v, 'viewBox'));
+    return checkViewBox({ x, y, width, height });
+  }
+  if (attrs['width'] != null && attrs['height'] != null) {
+    return checkViewBox({
+      x: 0,
+      y: 0,
+      width: parseNumber(attrs['width'], 'width'),
+      height: parseNumber(attrs['height'], 'height'),
+    });
+  }
+  throw new Error('Invalid SVG: <svg> element needs a viewBox or width and height');
+}
+
+function checkViewBox<T extends { width: number; height: number }>(viewBox: T): T {
+  if (viewBox.width <= 0 || viewBox.height <= 0) {
+    throw new Error('Invalid SVG: width and height must be positive');
+  }
+  return viewBox;
+}
+
+// Split path data into sub-paths of absolute points. Supports M, L and
+// their relative forms; coordinate pairs after a moveto are implicit linetos
+function parsePathData(d: string): Array<Array<{ x: number; y: number }>> {
+  const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) || [];
+  const subPaths: Array<Array<{ x: number; y: number }>> = [];
+  let current: Array<{ x: number; y: number }> = [];
+  let command = '';
+  let x = 0;
+  let y = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (/[a-zA-Z]/.test(token)) {
+      if ('MmLl'.indexOf(token) === -1) {
+        throw new Error(`Invalid SVG: unsupported path command "${token}"`);
+      }
+      command = token;
+      continue;
+    }
+    if (command === '' || i + 1 >= tokens.length || /[a-zA-Z]/.test(tokens[i + 1])) {
+      throw new Error(`Invalid SVG: malformed path data "${d}"`);
+    }
+
+    const relative = command === command.toLowerCase();
+    const dx = parseFloat(token);
+    const dy = parseFloat(tokens[++i]);
+    x = relative ? x + dx : dx;
+    y = relative ? y + dy : dy;
+
+    if (command === 'M' || command === 'm') {
+      if (current.length > 0) {
+        subPaths.push(current);
+      }
+      current = [];
+      command = relative ? 'l' : 'L';
+    }
+    current.push({ x: x, y: y });
+  }
+  if (current.length > 0) {
+    subPaths.push(current);
+  }
+  return subPaths;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) != null) {
+    attrs[match[1]] = unescapeAttribute(match[2] != null ? match[2] : match[3]);
+  }
+  return attrs;
+}
+
+function parseNumber(value: string, name: string): number {
+  const n = parseFloat(value);
+  if (isNaN(n)) {
+    throw new Error(`Invalid SVG: ${name} "${value}" is not a number`);
+  }
+  return n;
+}
+
+function formatNumber(n: number): string {
+  return (Math.round(n * 100) / 100).toString();
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function unescapeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
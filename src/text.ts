@@ -0,0 +1,42 @@
+import type { BoundsI } from './selection';
+import type { RectI, TextI } from './sketchpad';
+
+export const DEFAULT_FONT = 'sans-serif';
+export const DEFAULT_TEXT_COLOR = '#000';
+// Height of each line of text, relative to the font size
+export const LINE_HEIGHT = 1.2;
+
+// Get the CSS font of text drawn on a canvas of the given size
+export function getFont(text: TextI, size: RectI): string {
+  return `${text.size * size.width}px ${text.font || DEFAULT_FONT}`;
+}
+
+// Draw text with its top left corner at its position. Each line of the
+// text is drawn below the one before
+export function drawText(ctx: CanvasRenderingContext2D, text: TextI, size: RectI): void {
+  const fontSize = text.size * size.width;
+  ctx.save();
+  ctx.font = getFont(text, size);
+  ctx.fillStyle = text.color || DEFAULT_TEXT_COLOR;
+  ctx.textBaseline = 'top';
+  text.text.split('\n').forEach((line, i) => {
+    ctx.fillText(line, text.x * size.width, text.y * size.height + i * fontSize * LINE_HEIGHT);
+  });
+  ctx.restore();
+}
+
+// Get the pixel bounds of text, measured with a canvas context
+export function getTextBounds(ctx: CanvasRenderingContext2D, text: TextI, size: RectI): BoundsI {
+  const lines = text.text.split('\n');
+  ctx.save();
+  ctx.font = getFont(text, size);
+  const width = Math.max(...lines.map((line) => ctx.measureText(line).width));
+  ctx.restore();
+
+  return {
+    x: text.x * size.width,
+    y: text.y * size.height,
+    width: width,
+    height: lines.length * text.size * size.width * LINE_HEIGHT,
+  };
+}
@@ -0,0 +1,87 @@
+import * as simplify from '../src/simplify';
+import Sketchpad from '../src/sketchpad';
+
+import jsdom = require('jsdom-global');
+jsdom();
+
+describe('Rendering benchmark', function () {
+  const drawingMethods: Array<keyof CanvasRenderingContext2D> = ['stroke', 'lineTo', 'quadraticCurveTo', 'drawImage'];
+
+  // Count the drawing calls made while the pointer moves through a stroke
+  // on a sketchpad that already has `strokeCount` strokes
+  function measureFrameCost(strokeCount: number): number {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    const strokes = [];
+    for (let i = 0; i < strokeCount; i++) {
+      strokes.push({
+        points: [
+          { x: Math.random(), y: Math.random() },
+          { x: Math.random(), y: Math.random() },
+        ],
+        size: 0.01,
+      });
+    }
+    pad.loadJSON({ strokes: strokes });
+    dispatchMouseEvent(pad.canvas, 'mousedown', 10, 10);
+
+    const ctx = pad.canvas.getContext('2d') as CanvasRenderingContext2D;
+    const spies = drawingMethods.map((method) => spyOn(ctx, method as 'stroke').and.callThrough());
+    for (let i = 0; i < 10; i++) {
+      dispatchMouseEvent(pad.canvas, 'mousemove', 10 + i, 10 + i);
+    }
+    const cost = spies.reduce((total, spy) => total + spy.calls.count(), 0);
+
+    dispatchMouseEvent(pad.canvas, 'mouseup', 20, 20);
+    return cost;
+  }
+
+  it('should not grow frame cost with the number of strokes', function () {
+    const smallCost = measureFrameCost(10);
+    const largeCost = measureFrameCost(2000);
+
+    expect(smallCost).toBeGreaterThan(0);
+    expect(largeCost).toEqual(smallCost);
+  });
+});
+
+describe('Erasing benchmark', function () {
+  it('should only fill in simplified strokes near the eraser, once each', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    const strokes = [
+      {
+        points: [
+          { x: 0.05, y: 0.1 },
+          { x: 0.6, y: 0.1 },
+        ],
+        isInterpolationDone: true,
+      },
+    ];
+    for (let i = 0; i < 2000; i++) {
+      strokes.push({
+        points: [
+          { x: 0.5 + Math.random() / 2, y: 0.5 + Math.random() / 2 },
+          { x: 0.5 + Math.random() / 2, y: 0.5 + Math.random() / 2 },
+        ],
+        isInterpolationDone: true,
+      });
+    }
+    pad.loadJSON({ strokes: strokes });
+    const densify = spyOn(simplify, 'densifyPoints').and.callThrough();
+
+    pad.toggleEraserMode();
+    dispatchMouseEvent(pad.canvas, 'mousedown', 8, 10);
+    for (let i = 0; i < 10; i++) {
+      dispatchMouseEvent(pad.canvas, 'mousemove', 10 + i, 10);
+    }
+    dispatchMouseEvent(pad.canvas, 'mouseup', 20, 10);
+
+    expect(densify).toHaveBeenCalledTimes(1);
+    expect(pad.strokes.length).toEqual(2000 + 1);
+  });
+});
+
+function dispatchMouseEvent(canvas: HTMLCanvasElement, type: string, clientX: number, clientY: number): void {
+  const event = new Event(type);
+  Object.assign(event, { clientX, clientY });
+  canvas.dispatchEvent(event);
+}
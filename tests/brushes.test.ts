@@ -0,0 +1,23 @@
+import { getBrushStyle, getNibWidthScale } from '../src/brushes';
+
+describe('Brushes', function () {
+  it('should draw strokes without a brush as a pen', function () {
+    expect(getBrushStyle(undefined)).toBe(getBrushStyle('pen'));
+    expect(getBrushStyle('pen').alpha).toEqual(1);
+  });
+
+  it('should make a highlighter translucent and multiplied', function () {
+    const highlighter = getBrushStyle('highlighter');
+    expect(highlighter.alpha).toBeLessThan(1);
+    expect(highlighter.composite).toEqual('multiply');
+  });
+
+  it('should thin a calligraphy nib along its angle', function () {
+    const across = getNibWidthScale(1, 1);
+    const along = getNibWidthScale(1, -1);
+    expect(across).toBeCloseTo(1);
+    expect(along).toBeCloseTo(0.2);
+    expect(getNibWidthScale(1, 0)).toBeGreaterThan(along);
+    expect(getNibWidthScale(1, 0)).toBeLessThan(across);
+  });
+});
@@ -0,0 +1,144 @@
+import { InMemoryChannel, OperationI } from '../src/collaboration';
+import Sketchpad from '../src/sketchpad';
+
+import jsdom = require('jsdom-global');
+jsdom();
+
+describe('Collaboration', function () {
+  function createSketchpad(authorId: string): Sketchpad {
+    return new Sketchpad(document.createElement('div'), { width: 100, height: 100, authorId: authorId });
+  }
+
+  function strokeIds(pad: Sketchpad): Array<string | undefined> {
+    return pad.strokes.map((s) => s.id);
+  }
+
+  function dispatch(pad: Sketchpad, type: string, x: number, y: number): void {
+    const event = new Event(type);
+    Object.assign(event, { clientX: x, clientY: y });
+    pad.canvas.dispatchEvent(event);
+  }
+
+  function drawAcross(pad: Sketchpad): void {
+    dispatch(pad, 'mousedown', 10, 50);
+    dispatch(pad, 'mousemove', 50, 50);
+    dispatch(pad, 'mousemove', 90, 50);
+    dispatch(pad, 'mouseup', 90, 50);
+  }
+
+  function erase(pad: Sketchpad, x: number, y: number): void {
+    pad.toggleEraserMode();
+    dispatch(pad, 'mousedown', x, y);
+    dispatch(pad, 'mouseup', x, y);
+    pad.toggleEraserMode();
+  }
+
+  it('should give strokes an ID and author', function () {
+    const pad = createSketchpad('alice');
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+
+    expect(pad.strokes[0].id).toBeTruthy();
+    expect(pad.strokes[0].author).toEqual('alice');
+    expect(pad.toJSON().layers?.[0].strokes?.[0].id).toEqual(pad.strokes[0].id);
+  });
+
+  it('should send strokes, erasing and undo to connected sketchpads', function () {
+    const channel = new InMemoryChannel();
+    const alice = createSketchpad('alice');
+    const bob = createSketchpad('bob');
+    alice.connect(channel.connect());
+    bob.connect(channel.connect());
+
+    drawAcross(alice);
+    expect(strokeIds(bob)).toEqual(strokeIds(alice));
+    expect(bob.strokes[0].points).toEqual(alice.strokes[0].points);
+
+    erase(bob, 50, 50);
+    expect(alice.strokes.length).toEqual(2);
+    expect(strokeIds(alice)).toEqual(strokeIds(bob));
+
+    bob.undo();
+    expect(alice.strokes.length).toEqual(1);
+    expect(strokeIds(alice)).toEqual(strokeIds(bob));
+    expect(alice.operations.length).toEqual(3);
+  });
+
+  it('should keep strokes drawn by others when a clear is undone', function () {
+    const channel = new InMemoryChannel();
+    const alice = createSketchpad('alice');
+    const bob = createSketchpad('bob');
+    alice.connect(channel.connect());
+    bob.connect(channel.connect());
+
+    bob.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    const bobStroke = bob.strokes[0].id;
+    bob.clear();
+    alice.drawLine({ x: 30, y: 30 }, { x: 40, y: 40 }, { size: 5 });
+    const aliceStroke = alice.strokes[0].id;
+    bob.undo();
+
+    expect(strokeIds(bob)).toEqual([bobStroke, aliceStroke]);
+    expect(strokeIds(alice)).toEqual(strokeIds(bob));
+  });
+
+  it('should keep the layers two authors add at the same time apart', function () {
+    const channel = new InMemoryChannel();
+    const alice = createSketchpad('alice');
+    const bob = createSketchpad('bob');
+    alice.connect(channel.connect());
+    bob.connect(channel.connect());
+
+    const aliceLayer = alice.addLayer();
+    const bobLayer = bob.addLayer();
+    alice.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    bob.drawLine({ x: 30, y: 30 }, { x: 40, y: 40 }, { size: 5 });
+
+    expect(aliceLayer).not.toEqual(bobLayer);
+    [alice, bob].forEach((pad) => {
+      const authors = (id: string) => pad.layers.filter((l) => l.id === id)[0].strokes?.map((s) => s.author);
+      expect(authors(aliceLayer)).toEqual(['alice']);
+      expect(authors(bobLayer)).toEqual(['bob']);
+    });
+  });
+
+  it('should resolve concurrent erasing of a stroke the same way everywhere', function () {
+    const channel = new InMemoryChannel();
+    const alice = createSketchpad('alice');
+    const bob = createSketchpad('bob');
+    alice.connect(channel.connect());
+    bob.connect(channel.connect());
+    drawAcross(alice);
+    alice.disconnect();
+    bob.disconnect();
+
+    // Erase the same stroke on both sides before either hears of the other
+    const aliceOps: Array<OperationI> = [];
+    const bobOps: Array<OperationI> = [];
+    alice.on('operation', (op) => aliceOps.push(op));
+    bob.on('operation', (op) => bobOps.push(op));
+    erase(alice, 30, 50);
+    erase(bob, 70, 50);
+
+    bobOps.forEach((op) => alice.applyRemote(op));
+    aliceOps.forEach((op) => bob.applyRemote(op));
+
+    expect(strokeIds(alice)).toEqual(strokeIds(bob));
+    expect(alice.strokes.length).toEqual(2);
+    // Both authors' operations share a timestamp, so alice's erase wins
+    const points = alice.strokes.map((s) => s.points || []).reduce((all, p) => all.concat(p), []);
+    expect(points.some((p) => Math.abs(p.x - 0.3) < 0.05)).toBeFalse();
+    expect(points.some((p) => Math.abs(p.x - 0.7) < 0.02)).toBeTrue();
+  });
+
+  it('should ignore operations it has already applied', function () {
+    const alice = createSketchpad('alice');
+    const bob = createSketchpad('bob');
+    alice.on('operation', (op) => {
+      bob.applyRemote(op);
+      bob.applyRemote(op);
+    });
+    alice.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+
+    expect(bob.strokes.length).toEqual(1);
+  });
+});
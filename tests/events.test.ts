@@ -0,0 +1,26 @@
+import { EventEmitter } from '../src/events';
+
+describe('EventEmitter', function () {
+  interface EventsI {
+    change: number;
+  }
+
+  it('should call subscribed listeners with the payload', function () {
+    const emitter = new EventEmitter<EventsI>();
+    const listener = jasmine.createSpy('listener');
+    emitter.on('change', listener);
+
+    emitter.emit('change', 1);
+    expect(listener).toHaveBeenCalledOnceWith(1);
+  });
+
+  it('should not call unsubscribed listeners', function () {
+    const emitter = new EventEmitter<EventsI>();
+    const listener = jasmine.createSpy('listener');
+    emitter.on('change', listener);
+    emitter.off('change', listener);
+
+    emitter.emit('change', 1);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
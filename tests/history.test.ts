@@ -0,0 +1,80 @@
+import { CommandI, History } from '../src/history';
+
+describe('History', function () {
+  let values: Array<number>;
+
+  function push(value: number): CommandI {
+    return {
+      apply: () => values.push(value),
+      revert: () => values.splice(values.lastIndexOf(value), 1),
+    };
+  }
+
+  function execute(history: History, command: CommandI): void {
+    command.apply();
+    history.record(command);
+  }
+
+  beforeEach(function () {
+    values = [];
+  });
+
+  it('should undo and redo commands in order', function () {
+    const history = new History();
+    expect(history.canUndo()).toBeFalse();
+
+    execute(history, push(1));
+    execute(history, push(2));
+    expect(history.undo()).toBeTrue();
+    expect(values).toEqual([1]);
+    expect(history.canRedo()).toBeTrue();
+
+    expect(history.redo()).toBeTrue();
+    expect(values).toEqual([1, 2]);
+    expect(history.redo()).toBeFalse();
+  });
+
+  it('should drop undone commands when a new one is recorded', function () {
+    const history = new History();
+    execute(history, push(1));
+    history.undo();
+    execute(history, push(2));
+
+    expect(history.canRedo()).toBeFalse();
+    expect(history.undoneCommands.length).toEqual(0);
+  });
+
+  it('should keep at most depth commands', function () {
+    const history = new History(2);
+    execute(history, push(1));
+    execute(history, push(2));
+    execute(history, push(3));
+
+    expect(history.undo()).toBeTrue();
+    expect(history.undo()).toBeTrue();
+    expect(history.undo()).toBeFalse();
+    expect(values).toEqual([1]);
+  });
+
+  it('should group commands in a transaction into one', function () {
+    const history = new History();
+    history.begin();
+    execute(history, push(1));
+    history.begin();
+    execute(history, push(2));
+    history.end();
+    expect(history.canUndo()).toBeFalse();
+    history.end();
+
+    history.undo();
+    expect(values).toEqual([]);
+    expect(history.canUndo()).toBeFalse();
+
+    history.redo();
+    expect(values).toEqual([1, 2]);
+  });
+
+  it('should reject an unmatched end', function () {
+    expect(() => new History().end()).toThrowError('No transaction to end');
+  });
+});
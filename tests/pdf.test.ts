@@ -0,0 +1,162 @@
+import { layersToPDF } from '../src/pdf';
+import Sketchpad from '../src/sketchpad';
+
+import jsdom = require('jsdom-global');
+jsdom();
+
+describe('PDF', function () {
+  function decode(bytes: Uint8Array): string {
+    return String.fromCharCode(...Array.from(bytes));
+  }
+
+  it('should write a page the size of the canvas with a valid cross-reference table', function () {
+    const pdf = decode(layersToPDF([], { width: 200, height: 100 }));
+
+    expect(pdf.indexOf('%PDF-1.4\n')).toBe(0);
+    expect(pdf).toContain('/MediaBox [0 0 200 100]');
+    expect(pdf).toMatch(/%%EOF\n$/);
+
+    const xref = Number(/startxref\n(\d+)\n/.exec(pdf)?.[1]);
+    expect(pdf.substr(xref, 4)).toBe('xref');
+    const offsets = pdf.substr(xref).match(/^\d{10} 00000 n $/gm) || [];
+    expect(offsets.length).toBe(5);
+    offsets.forEach((entry, i) => {
+      expect(pdf.substr(parseInt(entry, 10), 8)).toBe(`${i + 1} 0 obj\n`);
+    });
+  });
+
+  it('should write each stroke as a path with its style', function () {
+    const pdf = decode(
+      layersToPDF(
+        [
+          {
+            strokes: [
+              {
+                points: [
+                  { x: 0, y: 0 },
+                  { x: 0.5, y: 0.5 },
+                  { x: 1, y: 0.5, skipped: true },
+                  { x: 0.2, y: 0.8 },
+                  { x: 0.4, y: 0.9 },
+                ],
+                width: 0.02,
+                color: '#ff8000',
+                cap: 'round',
+                join: 'bevel',
+                miterLimit: 4,
+              },
+            ],
+          },
+        ],
+        { width: 200, height: 100 },
+      ),
+    );
+
+    expect(pdf).toContain('1 0 0 -1 0 100 cm');
+    expect(pdf).toContain('q\n1 0.502 0 RG\n4 w\n1 J\n2 j\n4 M\n0 0 m\n100 50 l\n40 80 m\n80 90 l\nS\nQ');
+  });
+
+  it('should write the background, brush transparency and translucent layers', function () {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 0.5, y: 0.5 },
+    ];
+    const pdf = decode(
+      layersToPDF(
+        [
+          { strokes: [{ points: points, width: 0.01, brush: 'highlighter' }] },
+          { opacity: 0.5, strokes: [{ points: points, width: 0.01, brush: 'dashed', color: 'rgb(0, 0, 255)' }] },
+        ],
+        { width: 200, height: 100 },
+        '#eee',
+      ),
+    );
+
+    expect(pdf).toContain('0.933 0.933 0.933 rg 0 0 200 100 re f');
+    expect(pdf).toContain('/GS0 << /CA 0.4 /BM /Multiply >>');
+    expect(pdf).toContain('/GS1 << /ca 0.5 >>');
+    expect(pdf).toContain('q\n/GS1 gs\n/Fm0 Do\nQ');
+    expect(pdf).toContain('/Subtype /Form /BBox [0 0 200 100] /Resources 4 0 R /Group << /S /Transparency >>');
+    expect(pdf).toContain('0 0 1 RG\n2 w\n0 J\n[6 4] 0 d\n');
+  });
+
+  it('should write text in a standard font', function () {
+    const pdf = decode(
+      layersToPDF([{ texts: [{ text: 'Signed (é)\nOK', x: 0.1, y: 0.2, size: 0.1, font: 'serif' }] }], {
+        width: 200,
+        height: 100,
+      }),
+    );
+
+    expect(pdf).toContain('/F1 << /Type /Font /Subtype /Type1 /BaseFont /Times-Roman /Encoding /WinAnsiEncoding >>');
+    expect(pdf).toContain('BT\n/F1 20 Tf\n0 0 0 rg\n1 0 0 -1 20 36 Tm (Signed \\(\\351\\)) Tj\n');
+    expect(pdf).toContain('1 0 0 -1 20 60 Tm (OK) Tj\nET');
+  });
+
+  it('should reject colors it cannot read', function () {
+    expect(() =>
+      layersToPDF(
+        [
+          {
+            strokes: [
+              {
+                points: [
+                  { x: 0, y: 0 },
+                  { x: 1, y: 1 },
+                ],
+                color: 'not-a-color',
+              },
+            ],
+          },
+        ],
+        {
+          width: 10,
+          height: 10,
+        },
+      ),
+    ).toThrowError('Unsupported color "not-a-color"');
+  });
+
+  it('should export the visible layers of a sketchpad', function () {
+    const pad = new Sketchpad(document.createElement('div'), {
+      width: 300,
+      height: 150,
+      backgroundColor: '#fff',
+      data: {
+        layers: [
+          {
+            strokes: [
+              {
+                points: [
+                  { x: 0.1, y: 0.1 },
+                  { x: 0.9, y: 0.9 },
+                ],
+                width: 0.01,
+                color: 'red',
+              },
+            ],
+          },
+          {
+            visible: false,
+            strokes: [
+              {
+                points: [
+                  { x: 0.5, y: 0.1 },
+                  { x: 0.5, y: 0.9 },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    });
+
+    const pdf = decode(pad.toPDF());
+    expect(pdf).toContain('/MediaBox [0 0 300 150]');
+    expect(pdf).toContain('1 1 1 rg 0 0 300 150 re f');
+    expect(pdf).toContain('1 0 0 RG\n3 w');
+    expect(pdf).not.toContain('150 15 m');
+
+    expect(decode(pad.toPDF({ background: false }))).not.toContain('re f');
+  });
+});
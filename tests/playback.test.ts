@@ -0,0 +1,49 @@
+import { buildTimeline, getPointsDrawn } from '../src/playback';
+
+describe('Playback', function () {
+  const timed = (start: number, end: number) => ({
+    points: [
+      { x: 0, y: 0, time: start },
+      { x: 0.5, y: 0.5, time: (start + end) / 2 },
+      { x: 1, y: 1, time: end },
+    ],
+  });
+
+  it('should order strokes by when they were drawn, shortening long pauses', function () {
+    const first = timed(1000, 1200);
+    const second = timed(1300, 1500);
+    const third = timed(60000, 60100);
+    const timeline = buildTimeline([third, first, second]);
+
+    expect(timeline.entries.map((e) => e.stroke)).toEqual([first, second, third]);
+    expect(timeline.entries.map((e) => [e.start, e.end])).toEqual([
+      [0, 200],
+      [300, 500],
+      [1500, 1600],
+    ]);
+    expect(timeline.duration).toEqual(1600);
+  });
+
+  it('should play strokes without timing after the stroke before them', function () {
+    const untimed = {
+      points: [
+        { x: 0, y: 0 },
+        { x: 1, y: 1 },
+      ],
+    };
+    const timeline = buildTimeline([timed(1000, 1200), untimed, timed(1300, 1500)]);
+
+    expect(timeline.entries[1].stroke).toBe(untimed);
+    expect(timeline.entries[1].start).toEqual(200);
+    expect(timeline.entries[2].start).toBeGreaterThanOrEqual(timeline.entries[1].end);
+  });
+
+  it('should draw the points reached at a position', function () {
+    const [entry] = buildTimeline([timed(1000, 1200)]).entries;
+
+    expect(getPointsDrawn(entry, -1)).toEqual(0);
+    expect(getPointsDrawn(entry, 0)).toEqual(1);
+    expect(getPointsDrawn(entry, 150)).toEqual(2);
+    expect(getPointsDrawn(entry, 200)).toEqual(3);
+  });
+});
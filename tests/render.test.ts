@@ -0,0 +1,131 @@
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import { renderDrawing } from '../src/render';
+import Sketchpad, { DataI } from '../src/sketchpad';
+
+import jsdom = require('jsdom-global');
+jsdom();
+
+// node-canvas is optional, as it is for jsdom, so these tests are skipped
+// where it hasn't been built
+function loadCanvas(): typeof import('canvas') | undefined {
+  try {
+    return require('canvas');
+  } catch (e) {
+    return undefined;
+  }
+}
+
+const canvasModule = loadCanvas();
+
+(canvasModule ? describe : xdescribe)('Headless rendering', function () {
+  const createCanvas = (width: number, height: number) =>
+    (canvasModule as typeof import('canvas')).createCanvas(width, height);
+  const data: DataI = {
+    layers: [
+      {
+        strokes: [
+          {
+            points: [
+              { x: 0.1, y: 0.1 },
+              { x: 0.5, y: 0.6 },
+              { x: 0.9, y: 0.2 },
+            ],
+            width: 0.04,
+            color: '#c00',
+          },
+          {
+            points: [
+              { x: 0.1, y: 0.9, pressure: 0.2 },
+              { x: 0.5, y: 0.7, pressure: 0.9 },
+              { x: 0.9, y: 0.9, pressure: 0.5 },
+            ],
+            width: 0.03,
+            brush: 'calligraphy',
+          },
+        ],
+      },
+      {
+        opacity: 0.5,
+        strokes: [
+          {
+            points: [
+              { x: 0.2, y: 0.5 },
+              { x: 0.8, y: 0.5 },
+              { x: 0.2, y: 0.55 },
+            ],
+            width: 0.1,
+            color: '#00f',
+          },
+          {
+            points: [
+              { x: 0.1, y: 0.3 },
+              { x: 0.9, y: 0.3 },
+            ],
+            width: 0.02,
+            brush: 'dashed',
+          },
+        ],
+      },
+    ],
+  };
+
+  function getPixels(canvas: { getContext(type: '2d'): unknown }, width: number, height: number): Array<number> {
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    return Array.from(ctx.getImageData(0, 0, width, height).data);
+  }
+
+  it('should draw the same pixels as a sketchpad', function () {
+    const pad = new Sketchpad(document.createElement('div'), {
+      width: 120,
+      height: 80,
+      backgroundColor: '#ffe',
+      background: { template: 'grid', spacing: 0.1 },
+      data: data,
+    });
+    const canvas = createCanvas(120, 80);
+    renderDrawing(canvas.getContext('2d') as unknown as CanvasRenderingContext2D, data, {
+      width: 120,
+      height: 80,
+      backgroundColor: '#ffe',
+      background: { template: 'grid', spacing: 0.1 },
+      createCanvas: (width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement,
+    });
+
+    const pixels = getPixels(canvas, 120, 80);
+    expect(pixels.some((p, i) => i % 4 === 2 && p === 0)).toBeTrue();
+    expect(pixels).toEqual(getPixels(pad.canvas, 120, 80));
+  });
+
+  it('should leave out hidden layers', function () {
+    const canvas = createCanvas(50, 50);
+    const ctx = canvas.getContext('2d') as unknown as CanvasRenderingContext2D;
+    Sketchpad.render(
+      ctx,
+      { layers: [{ visible: false, strokes: data.layers?.[0].strokes }] },
+      { width: 50, height: 50 },
+    );
+
+    expect(getPixels(canvas, 50, 50).every((p) => p === 0)).toBeTrue();
+  });
+
+  it('should reject background images that are not loaded', function () {
+    const ctx = createCanvas(50, 50).getContext('2d') as unknown as CanvasRenderingContext2D;
+    expect(() => renderDrawing(ctx, data, { width: 50, height: 50, background: { image: 'paper.png' } })).toThrowError(
+      'Background images must be loaded before rendering',
+    );
+  });
+});
+
+describe('Rendering without a DOM', function () {
+  it('should load in a Node process that has no window or document', function () {
+    // The other tests share jsdom's globals, so this loads the module afresh
+    const output = execFileSync(
+      process.execPath,
+      ['-r', 'ts-node/register', '-e', "console.log(typeof require('./src/render').renderDrawing)"],
+      { cwd: path.resolve(__dirname, '..'), env: { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true' } },
+    );
+
+    expect(output.toString().trim()).toBe('function');
+  });
+});
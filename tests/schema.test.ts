@@ -0,0 +1,75 @@
+import { migrateData, SCHEMA_VERSION } from '../src/schema';
+
+describe('Schema', function () {
+  const stroke = { points: [{ x: 0.1, y: 0.2, skipped: false }], size: 0.05, color: '#000', cap: 'round' };
+
+  it('should migrate unversioned strokes into a single layer', function () {
+    const data = migrateData({ aspectRatio: 1, strokes: [stroke] });
+
+    expect(data.version).toEqual(SCHEMA_VERSION);
+    expect(data.strokes).toBeUndefined();
+    expect(data.layers?.length).toEqual(1);
+    expect(data.layers?.[0].strokes?.[0].points).toEqual(stroke.points);
+  });
+
+  it('should rename the size of strokes saved by version 1 and drop the aspect ratio', function () {
+    const data = migrateData({ version: 1, aspectRatio: 2, layers: [{ strokes: [stroke] }, {}] });
+
+    expect(data.version).toEqual(2);
+    expect(data.aspectRatio).toBeUndefined();
+    expect(data.layers?.[0].strokes?.[0]).toEqual({
+      points: stroke.points,
+      width: 0.05,
+      color: '#000',
+      cap: 'round',
+    });
+    expect(data.layers?.[1]).toEqual({});
+    expect(() => migrateData({ version: 1, layers: [{ strokes: [{ size: -1 }] }] })).toThrowError(
+      'Invalid sketchpad data: layers[0].strokes[0].width must not be negative',
+    );
+  });
+
+  it('should keep layers saved before versioning', function () {
+    const data = migrateData({ layers: [{ id: 'a', strokes: [] }, { id: 'b' }] });
+
+    expect(data.layers?.map((l) => l.id)).toEqual(['a', 'b']);
+  });
+
+  it('should drop properties it does not know about', function () {
+    const data = migrateData({ version: SCHEMA_VERSION, layers: [{ strokes: [{ ...stroke, extra: true }] }] });
+
+    expect(Object.keys(data.layers?.[0].strokes?.[0] || {})).not.toContain('extra');
+  });
+
+  it('should keep text on layers', function () {
+    const text = { id: 't', text: 'Label', x: 0.1, y: 0.2, size: 0.05, font: 'serif', color: '#f00' };
+    const data = migrateData({ version: SCHEMA_VERSION, layers: [{ texts: [text] }] });
+
+    expect(data.layers?.[0].texts).toEqual([text]);
+    expect(() => migrateData({ layers: [{ texts: [{ ...text, size: 0 }] }] })).toThrowError(
+      'Invalid sketchpad data: layers[0].texts[0].size must be positive',
+    );
+  });
+
+  it('should describe where malformed data is wrong', function () {
+    expect(() => migrateData(null)).toThrowError('Invalid sketchpad data: data must be an object');
+    expect(() => migrateData({ strokes: [{ points: [{ x: 0, y: '1' }] }] })).toThrowError(
+      'Invalid sketchpad data: layers[0].strokes[0].points[0].y must be a number',
+    );
+    expect(() => migrateData({ layers: [{ opacity: 2 }] })).toThrowError(
+      'Invalid sketchpad data: layers[0].opacity must be between 0 and 1',
+    );
+    expect(() => migrateData({ strokes: [{ cap: 'flat' }] })).toThrowError(
+      'Invalid sketchpad data: layers[0].strokes[0].cap must be one of "butt", "round", "square"',
+    );
+    expect(() => migrateData({ version: 1.5, layers: [] })).toThrowError(
+      'Invalid sketchpad data: version must be a whole number',
+    );
+  });
+
+  it('should reject data from a newer version', function () {
+    expect(() => migrateData({ version: SCHEMA_VERSION + 1, layers: [] })).toThrowError(
+      `Invalid sketchpad data: version ${SCHEMA_VERSION + 1} is newer than the supported version ${SCHEMA_VERSION}`,
+    );
+  });
+});
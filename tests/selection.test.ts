@@ -0,0 +1,78 @@
+import { getBounds, getHandleAt, isInPolygon, rotation, scaling, transformStroke, translation } from '../src/selection';
+
+describe('Selection', function () {
+  const size = { width: 200, height: 100 };
+
+  it('should transform points in pixels and scale the line width', function () {
+    const stroke = {
+      points: [
+        { x: 0.1, y: 0.2 },
+        { x: 0.2, y: 0.4, skipped: true },
+      ],
+      width: 0.01,
+      color: '#f00',
+    };
+
+    const moved = transformStroke(stroke, translation(20, 10), size);
+    expect(moved.points?.[0].x).toBeCloseTo(0.2);
+    expect(moved.points?.[0].y).toBeCloseTo(0.3);
+    expect(moved.points?.[1].skipped).toBeTrue();
+    expect(moved.width).toEqual(0.01);
+    expect(moved.color).toEqual('#f00');
+
+    const scaled = transformStroke(stroke, scaling(2, 2, { x: 0, y: 0 }), size);
+    expect(scaled.points?.[0].x).toBeCloseTo(0.2);
+    expect(scaled.width).toBeCloseTo(0.02);
+  });
+
+  it('should rotate about a point and drop shapes that are rotated', function () {
+    const stroke = {
+      points: [{ x: 0.75, y: 0.5 }],
+      shape: { type: 'line' as const, start: { x: 0.5, y: 0.5 }, end: { x: 0.75, y: 0.5 } },
+    };
+
+    const rotated = transformStroke(stroke, rotation(Math.PI / 2, { x: 100, y: 50 }), size);
+    expect(rotated.points?.[0].x).toBeCloseTo(0.5);
+    expect(rotated.points?.[0].y).toBeCloseTo(1);
+    expect(rotated.shape).toBeUndefined();
+
+    const moved = transformStroke(stroke, translation(20, 0), size);
+    expect(moved.shape?.end).toEqual({ x: 0.85, y: 0.5 });
+  });
+
+  it('should get the bounds of points that have not been erased', function () {
+    const bounds = getBounds(
+      [
+        {
+          points: [
+            { x: 0.1, y: 0.1 },
+            { x: 0.9, y: 0.9, skipped: true },
+            { x: 0.5, y: 0.3 },
+          ],
+        },
+      ],
+      size,
+    );
+
+    expect(bounds).toEqual({ x: 20, y: 10, width: 80, height: 20 });
+    expect(getBounds([{ points: [] }], size)).toBeUndefined();
+  });
+
+  it('should find handles near the corners and above the top', function () {
+    const bounds = { x: 10, y: 40, width: 50, height: 20 };
+    expect(getHandleAt(bounds, { x: 12, y: 42 })?.type).toEqual('nw');
+    expect(getHandleAt(bounds, { x: 60, y: 60 })?.type).toEqual('se');
+    expect(getHandleAt(bounds, { x: 35, y: 16 })?.type).toEqual('rotate');
+    expect(getHandleAt(bounds, { x: 35, y: 50 })).toBeUndefined();
+  });
+
+  it('should test whether points lie inside a lasso', function () {
+    const lasso = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 0, y: 10 },
+    ];
+    expect(isInPolygon(lasso, { x: 2, y: 2 })).toBeTrue();
+    expect(isInPolygon(lasso, { x: 8, y: 8 })).toBeFalse();
+  });
+});
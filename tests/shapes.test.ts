@@ -0,0 +1,45 @@
+import { constrainShape, isEmptyShape, shapeToPoints } from '../src/shapes';
+
+describe('Shapes', function () {
+  const size = { width: 100, height: 100 };
+
+  it('should outline a rectangle through its corners', function () {
+    const points = shapeToPoints({ type: 'rectangle', start: { x: 0.1, y: 0.1 }, end: { x: 0.5, y: 0.3 } }, size);
+
+    expect(points[0]).toEqual({ x: 0.1, y: 0.1, skipped: false });
+    expect(points[points.length - 1]).toEqual({ x: 0.1, y: 0.1, skipped: false });
+    expect(points).toContain({ x: 0.5, y: 0.1, skipped: false });
+    expect(points).toContain({ x: 0.5, y: 0.3, skipped: false });
+    expect(points.every((p) => !p.skipped)).toBeTrue();
+  });
+
+  it('should keep outline points within the eraser interval', function () {
+    const points = shapeToPoints({ type: 'ellipse', start: { x: 0, y: 0 }, end: { x: 1, y: 0.5 } }, size);
+
+    for (let i = 1; i < points.length; i++) {
+      const distance = Math.hypot((points[i].x - points[i - 1].x) * 100, (points[i].y - points[i - 1].y) * 100);
+      expect(distance).toBeLessThanOrEqual(2.01);
+    }
+  });
+
+  it('should split an arrow head from its shaft', function () {
+    const points = shapeToPoints({ type: 'arrow', start: { x: 0, y: 0.5 }, end: { x: 1, y: 0.5 } }, size);
+
+    expect(points.filter((p) => p.skipped).length).toEqual(1);
+    expect(points[points.length - 1].x).toBeLessThan(1);
+  });
+
+  it('should constrain rectangles to squares and lines to 45°', function () {
+    const square = constrainShape({ type: 'rectangle', start: { x: 0.5, y: 0.5 }, end: { x: 0.1, y: 0.7 } }, size);
+    expect(square.end.x).toBeCloseTo(0.1);
+    expect(square.end.y).toBeCloseTo(0.9);
+
+    const line = constrainShape({ type: 'line', start: { x: 0, y: 0 }, end: { x: 0.5, y: 0.45 } }, size);
+    expect(line.end.x).toBeCloseTo(line.end.y);
+  });
+
+  it('should detect empty shapes', function () {
+    expect(isEmptyShape({ type: 'line', start: { x: 0.5, y: 0.5 }, end: { x: 0.5, y: 0.5 } })).toBeTrue();
+    expect(isEmptyShape({ type: 'line', start: { x: 0.5, y: 0.5 }, end: { x: 0.6, y: 0.5 } })).toBeFalse();
+  });
+});
@@ -0,0 +1,75 @@
+import { DEFAULT_SIMPLIFY_TOLERANCE, densifyPoints, simplifyPoints } from '../src/simplify';
+import type { PointI } from '../src/sketchpad';
+
+describe('Simplify', function () {
+  const size = { width: 500, height: 500 };
+
+  // A wavy stroke with a point every pixel, like a stroke drawn by hand
+  const wave = (pressure?: (t: number) => number) => {
+    const points: Array<PointI> = [];
+    for (let x = 50; x <= 450; x++) {
+      const t = (x - 50) / 400;
+      points.push({ x: x / 500, y: (250 + 100 * Math.sin(t * 4 * Math.PI)) / 500, pressure: pressure?.(t) });
+    }
+    return points;
+  };
+
+  // Pixels between a point and the nearest part of a polyline
+  const distanceTo = (p: PointI, line: Array<PointI>) => {
+    let min = Infinity;
+    for (let i = 1; i < line.length; i++) {
+      const a = { x: line[i - 1].x * 500, y: line[i - 1].y * 500 };
+      const b = { x: line[i].x * 500, y: line[i].y * 500 };
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const t = Math.min(Math.max(((p.x * 500 - a.x) * dx + (p.y * 500 - a.y) * dy) / (dx * dx + dy * dy), 0), 1);
+      min = Math.min(min, Math.hypot(p.x * 500 - a.x - dx * t, p.y * 500 - a.y - dy * t));
+    }
+    return min;
+  };
+
+  it('should draw within the default tolerance of the original with far fewer points', function () {
+    const points = wave();
+    const simplified = simplifyPoints(points, DEFAULT_SIMPLIFY_TOLERANCE, size);
+
+    expect(simplified.length).toBeLessThan(points.length / 4);
+    expect(simplified[0]).toBe(points[0]);
+    expect(simplified[simplified.length - 1]).toBe(points[points.length - 1]);
+    const tolerance = DEFAULT_SIMPLIFY_TOLERANCE * size.width;
+    expect(points.every((p) => distanceTo(p, simplified) <= tolerance)).toBeTrue();
+  });
+
+  it('should reduce a straight line to its ends', function () {
+    const points = [0, 1, 2, 3, 4].map((i) => ({ x: i / 10, y: i / 10 }));
+    expect(simplifyPoints(points, DEFAULT_SIMPLIFY_TOLERANCE, size)).toEqual([points[0], points[4]]);
+  });
+
+  it('should keep erased points and the ends of the runs between them', function () {
+    const points = [0, 1, 2, 3, 4, 5, 6].map((i) => ({ x: i / 10, y: 0, skipped: i === 3 }));
+    const simplified = simplifyPoints(points, DEFAULT_SIMPLIFY_TOLERANCE, size);
+    expect(simplified).toEqual([points[0], points[2], points[3], points[4], points[6]]);
+  });
+
+  it('should keep points where the pressure changes', function () {
+    const points = wave((t) => (t < 0.5 ? 0.2 : 0.8)).map((p) => ({ ...p, y: 0.5 }));
+    const simplified = simplifyPoints(points, DEFAULT_SIMPLIFY_TOLERANCE, size);
+
+    expect(simplified.length).toBeLessThan(points.length / 4);
+    expect(simplified.some((p) => p.pressure === 0.2 && p.x > 0.2)).toBeTrue();
+    expect(simplified.some((p) => p.pressure === 0.8 && p.x < 0.8)).toBeTrue();
+  });
+
+  it('should fill in points between distant ones', function () {
+    const points = densifyPoints(
+      [
+        { x: 0, y: 0, pressure: 0 },
+        { x: 0.02, y: 0, pressure: 1 },
+      ],
+      size,
+    );
+
+    expect(points.length).toEqual(6);
+    expect(points[1].x).toBeCloseTo(0.004);
+    expect(points[1].pressure).toBeCloseTo(0.2);
+  });
+});
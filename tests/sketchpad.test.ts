@@ -1,4 +1,4 @@
-import Sketchpad from '../src/sketchpad';
+import Sketchpad, { PointI, StrokeI, ViewI } from '../src/sketchpad';
 
 import jsdom = require('jsdom-global');
 jsdom();
@@ -23,6 +23,1303 @@ describe('Sketchpad', function () {
     drawStrokeWithMouse(pad.canvas);
     expect(pad.strokes.length).toEqual(0);
   });
+
+  it('should round-trip strokes through SVG', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.setLineColor('#f00');
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+
+    const other = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    other.loadSVG(pad.toSVG());
+    expect(other.strokes.length).toEqual(1);
+    expect(other.strokes[0].points).toEqual(pad.strokes[0].points);
+    expect(other.strokes[0].width).toEqual(pad.strokes[0].width);
+    expect(other.strokes[0].color).toEqual('#f00');
+  });
+
+  it('should export strokes drawn by hand to SVG', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    drawStrokeWithMouse(pad.canvas);
+    expect(pad.toSVG()).toContain('<path d="M10 10 ');
+  });
+
+  it('should undo and redo strokes', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    expect(pad.canUndo()).toBeFalse();
+    drawStrokeWithMouse(pad.canvas);
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+
+    pad.undo();
+    expect(pad.strokes.length).toEqual(1);
+    expect(pad.undos.length).toEqual(1);
+    expect(pad.canRedo()).toBeTrue();
+
+    pad.redo();
+    expect(pad.strokes.length).toEqual(2);
+    expect(pad.canRedo()).toBeFalse();
+  });
+
+  it('should undo a clear', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    pad.clear();
+    expect(pad.strokes.length).toEqual(0);
+
+    pad.undo();
+    expect(pad.strokes.length).toEqual(1);
+  });
+
+  it('should undo erasing', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 50, y: 50 }, { size: 5 });
+    const points = pad.strokes[0].points;
+
+    pad.toggleEraserMode();
+    drawStrokeWithMouse(pad.canvas);
+    expect(pad.strokes[0].points).toEqual([jasmine.objectContaining({ x: 0.5, y: 0.5 })]);
+
+    pad.undo();
+    expect(pad.strokes[0].points).toEqual(points);
+
+    pad.redo();
+    expect(pad.strokes[0].points?.length).toEqual(1);
+  });
+
+  it('should undo loading data', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    pad.loadJSON({ strokes: [] });
+    expect(pad.strokes.length).toEqual(0);
+
+    pad.undo();
+    expect(pad.strokes.length).toEqual(1);
+  });
+
+  it('should undo a transaction as a single step', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.transaction(() => {
+      pad.clear();
+      pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+      pad.drawLine({ x: 20, y: 20 }, { x: 30, y: 30 }, { size: 5 });
+    });
+    expect(pad.strokes.length).toEqual(2);
+
+    pad.undo();
+    expect(pad.strokes.length).toEqual(0);
+    expect(pad.canUndo()).toBeFalse();
+  });
+
+  it('should limit the undo history to historyDepth', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, historyDepth: 1 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    pad.drawLine({ x: 20, y: 20 }, { x: 30, y: 30 }, { size: 5 });
+
+    pad.undo();
+    pad.undo();
+    expect(pad.strokes.length).toEqual(1);
+  });
+
+  it('should emit stroke events with the stroke', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    const events: Array<string> = [];
+    pad.on('strokestart', (e) => events.push(`start ${e.stroke.points?.length}`));
+    pad.on('strokeend', (e) => events.push(`end ${e.stroke.points?.length}`));
+
+    drawStrokeWithMouse(pad.canvas);
+    expect(events[0]).toEqual('start 1');
+    expect(events[1]).toMatch(/^end [1-9]/);
+    expect(events.length).toEqual(2);
+  });
+
+  it('should emit erase, undo and clear events with the affected strokes', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    const erase = jasmine.createSpy('erase');
+    const undo = jasmine.createSpy('undo');
+    const clear = jasmine.createSpy('clear');
+    pad.on('erase', erase);
+    pad.on('undo', undo);
+    pad.on('clear', clear);
+    pad.drawLine({ x: 10, y: 10 }, { x: 50, y: 50 }, { size: 5 });
+
+    pad.toggleEraserMode();
+    drawStrokeWithMouse(pad.canvas);
+    expect(erase).toHaveBeenCalledTimes(1);
+    expect(erase.calls.mostRecent().args[0].removed[0].points.length).toEqual(2);
+    expect(erase.calls.mostRecent().args[0].added[0].points.length).toEqual(1);
+
+    pad.undo();
+    expect(undo.calls.mostRecent().args[0].added[0].points.length).toEqual(2);
+
+    pad.off('clear', clear);
+    pad.clear();
+    expect(clear).not.toHaveBeenCalled();
+  });
+
+  it('should draw shapes with a live preview', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, tool: 'ellipse' });
+    const updates: Array<number> = [];
+    pad.on('strokeupdate', (e) => updates.push(e.stroke.points?.length || 0));
+
+    dispatchMouseEvent(pad.canvas, 'mousedown', 10, 10);
+    dispatchMouseEvent(pad.canvas, 'mousemove', 30, 20);
+    dispatchMouseEvent(pad.canvas, 'mousemove', 60, 40);
+    dispatchMouseEvent(pad.canvas, 'mouseup', 60, 40, true);
+
+    expect(updates.length).toEqual(2);
+    expect(updates[1]).toBeGreaterThan(updates[0]);
+    expect(pad.strokes.length).toEqual(1);
+    expect(pad.strokes[0].shape).toEqual({ type: 'ellipse', start: { x: 0.1, y: 0.1 }, end: { x: 0.6, y: 0.6 } });
+  });
+
+  it('should discard shapes without a size', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.setTool('rectangle');
+    dispatchMouseEvent(pad.canvas, 'mousedown', 10, 10);
+    dispatchMouseEvent(pad.canvas, 'mouseup', 10, 10);
+    expect(pad.strokes.length).toEqual(0);
+    expect(pad.canUndo()).toBeFalse();
+  });
+
+  it('should draw a separate stroke for each touch', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    dispatchTouches(pad.canvas, 'touchstart', [
+      [1, 10, 10],
+      [2, 50, 10],
+    ]);
+    dispatchTouches(pad.canvas, 'touchmove', [
+      [1, 10, 30],
+      [2, 50, 30],
+    ]);
+    dispatchTouches(pad.canvas, 'touchend', [[1, 10, 50]]);
+    dispatchTouches(pad.canvas, 'touchmove', [[2, 50, 50]]);
+    dispatchTouches(pad.canvas, 'touchend', [[2, 50, 70]]);
+
+    expect(pad.strokes.length).toEqual(2);
+    expect(pad.strokes[0].points?.every((p) => Math.abs(p.x - 0.1) < 1e-9)).toBeTrue();
+    expect(pad.strokes[1].points?.every((p) => Math.abs(p.x - 0.5) < 1e-9)).toBeTrue();
+    expect(Math.max(...(pad.strokes[1].points || []).map((p) => p.y))).toBeGreaterThan(0.5);
+  });
+
+  it('should leave pinch gestures to the host when reserved', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, reservePinchGestures: true });
+    dispatchTouches(pad.canvas, 'touchstart', [[1, 10, 10]]);
+    dispatchTouches(pad.canvas, 'touchmove', [[1, 10, 30]]);
+    dispatchTouches(pad.canvas, 'touchstart', [[2, 50, 10]]);
+    dispatchTouches(pad.canvas, 'touchmove', [
+      [1, 10, 50],
+      [2, 50, 50],
+    ]);
+    dispatchTouches(pad.canvas, 'touchend', [
+      [1, 10, 50],
+      [2, 50, 50],
+    ]);
+    expect(pad.strokes.length).toEqual(0);
+
+    dispatchTouches(pad.canvas, 'touchstart', [[3, 10, 10]]);
+    dispatchTouches(pad.canvas, 'touchend', [[3, 10, 30]]);
+    expect(pad.strokes.length).toEqual(1);
+  });
+
+  it('should load strokes saved before layers into a single layer', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.loadJSON({ strokes: [{ points: [{ x: 0.1, y: 0.1 }], width: 0.05 }] });
+
+    expect(pad.layers.length).toEqual(1);
+    expect(pad.layers[0].strokes?.length).toEqual(1);
+    expect(pad.getActiveLayer()).toEqual(pad.layers[0].id as string);
+  });
+
+  it('should reject malformed data without changing the sketchpad', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    expect(pad.toJSON().version).toEqual(2);
+
+    expect(() => pad.loadJSON({ layers: [{ strokes: [{ points: [{ x: 0 } as PointI] }] }] })).toThrowError(
+      'Invalid sketchpad data: layers[0].strokes[0].points[0].y must be a number',
+    );
+    expect(pad.strokes.length).toEqual(1);
+    expect(pad.canUndo()).toBeTrue();
+    pad.undo();
+    expect(pad.canUndo()).toBeFalse();
+  });
+
+  it('should round-trip layers through JSON', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    const top = pad.addLayer('Top');
+    pad.drawLine({ x: 30, y: 30 }, { x: 40, y: 40 }, { size: 5 });
+    pad.setLayerOpacity(top, 0.5);
+    pad.setLayerVisible(top, false);
+
+    const other = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    other.loadJSON(pad.toJSON());
+    expect(other.layers).toEqual(pad.layers);
+    expect(other.getActiveLayer()).toEqual(top);
+  });
+
+  it('should draw new strokes on the active layer', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    const bottom = pad.getActiveLayer();
+    pad.addLayer();
+    drawStrokeWithMouse(pad.canvas);
+    pad.setActiveLayer(bottom);
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+
+    expect(pad.layers.map((l) => l.strokes?.length)).toEqual([1, 1]);
+    expect(pad.strokes.length).toEqual(2);
+  });
+
+  it('should not draw on or erase hidden and locked layers', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 50, y: 50 }, { size: 5 });
+    const layer = pad.getActiveLayer();
+    pad.setLayerLocked(layer, true);
+    drawStrokeWithMouse(pad.canvas);
+    expect(pad.strokes.length).toEqual(1);
+
+    pad.toggleEraserMode();
+    drawStrokeWithMouse(pad.canvas);
+    pad.clear();
+    expect(pad.strokes[0].points?.length).toEqual(2);
+
+    pad.setLayerLocked(layer, false);
+    pad.setLayerVisible(layer, false);
+    drawStrokeWithMouse(pad.canvas);
+    expect(pad.strokes[0].points?.length).toEqual(2);
+  });
+
+  it('should undo adding, removing and moving layers', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    const bottom = pad.getActiveLayer();
+    const top = pad.addLayer();
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    pad.moveLayer(top, 0);
+    expect(pad.layers.map((l) => l.id)).toEqual([top, bottom]);
+
+    pad.undo();
+    expect(pad.layers.map((l) => l.id)).toEqual([bottom, top]);
+
+    pad.removeLayer(top);
+    expect(pad.layers.map((l) => l.id)).toEqual([bottom]);
+    expect(pad.getActiveLayer()).toEqual(bottom);
+    expect(() => pad.removeLayer(bottom)).toThrowError('Cannot remove the last layer');
+
+    pad.undo();
+    expect(pad.strokes.length).toEqual(1);
+    pad.undo();
+    pad.undo();
+    expect(pad.layers.length).toEqual(1);
+    expect(pad.getActiveLayer()).toEqual(bottom);
+  });
+
+  it('should select strokes inside a box and move them', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 40, y: 40 }, { size: 5 });
+    pad.drawLine({ x: 60, y: 60 }, { x: 80, y: 80 }, { size: 5 });
+    const select = jasmine.createSpy('select');
+    const transform = jasmine.createSpy('transform');
+    pad.on('select', select);
+    pad.on('transform', transform);
+
+    pad.setTool('select');
+    dragWithMouse(pad.canvas, [0, 0], [50, 50]);
+    expect(pad.getSelection().length).toEqual(1);
+    expect(select).toHaveBeenCalledTimes(1);
+
+    dragWithMouse(pad.canvas, [25, 25], [35, 25]);
+    expect(pad.strokes[0].points?.[0].x).toBeCloseTo(0.2);
+    expect(pad.strokes[1].points?.[0].x).toBeCloseTo(0.6);
+    expect(transform).toHaveBeenCalledTimes(1);
+
+    pad.undo();
+    expect(pad.strokes[0].points?.[0].x).toBeCloseTo(0.1);
+  });
+
+  it('should select strokes inside a lasso and scale them from a handle', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    pad.setTool('lasso');
+    dispatchMouseEvent(pad.canvas, 'mousedown', 0, 0);
+    dispatchMouseEvent(pad.canvas, 'mousemove', 40, 0);
+    dispatchMouseEvent(pad.canvas, 'mousemove', 40, 40);
+    dispatchMouseEvent(pad.canvas, 'mouseup', 0, 40);
+    expect(pad.getSelection().length).toEqual(1);
+
+    pad.setTool('select');
+    dragWithMouse(pad.canvas, [20, 20], [30, 30]);
+    expect(pad.strokes[0].points?.[0]).toEqual(jasmine.objectContaining({ x: 0.1, y: 0.1 }));
+    expect(pad.strokes[0].points?.[1].x).toBeCloseTo(0.3);
+    expect(pad.strokes[0].width).toBeCloseTo(0.1);
+  });
+
+  it('should delete, duplicate and recolor the selection', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    pad.setTool('select');
+    pad.selectAll();
+
+    pad.duplicateSelection();
+    expect(pad.strokes.length).toEqual(2);
+    expect(pad.getSelection()[0].points?.[0].x).toBeCloseTo(0.2);
+
+    pad.setSelectionColor('#f00');
+    expect(pad.strokes.map((s) => s.color)).toEqual(['#000', '#f00']);
+
+    pad.deleteSelection();
+    expect(pad.strokes.length).toEqual(1);
+    expect(pad.getSelection().length).toEqual(0);
+
+    pad.undo();
+    pad.undo();
+    pad.undo();
+    expect(pad.strokes.length).toEqual(1);
+    expect(pad.strokes[0].color).toEqual('#000');
+  });
+
+  it('should copy and paste strokes between sketchpads', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    const other = new Sketchpad(document.createElement('div'), { width: 200, height: 200 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    pad.selectAll();
+    pad.copy();
+
+    other.paste();
+    expect(other.strokes.length).toEqual(1);
+    expect(other.strokes[0].points).toEqual(pad.strokes[0].points);
+    expect(other.strokes[0].points).not.toBe(pad.strokes[0].points);
+    expect(other.getSelection().length).toEqual(1);
+
+    other.undo();
+    expect(other.strokes.length).toEqual(0);
+  });
+
+  it('should keep the clipboard safe from changes to copied strokes', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    const other = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+    pad.selectAll();
+    const copied = pad.copy();
+    ((copied[0].points || [])[0] as { x: number }).x = 0.9;
+    copied.pop();
+
+    other.paste();
+    expect(other.strokes.length).toEqual(1);
+    expect(other.strokes[0].points?.[0].x).toEqual(0.1);
+  });
+
+  it('should record point timing and keep it through JSON', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, recordTiming: true });
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(1000));
+    dispatchMouseEvent(pad.canvas, 'mousedown', 10, 10);
+    jasmine.clock().mockDate(new Date(1100));
+    dispatchMouseEvent(pad.canvas, 'mouseup', 30, 10);
+    jasmine.clock().uninstall();
+
+    const data = pad.toJSON();
+    const times = (data.layers?.[0].strokes?.[0].points || []).map((p) => p.time as number);
+    expect(times[0]).toEqual(1000);
+    expect(times[times.length - 1]).toBeGreaterThan(1000);
+    expect(times.every((t, i) => t <= 1100 && (i === 0 || t >= times[i - 1]))).toBeTrue();
+
+    const other = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    other.loadJSON(data);
+    expect(other.strokes[0].points?.map((p) => p.time)).toEqual(times);
+  });
+
+  it('should not record point timing by default', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    drawStrokeWithMouse(pad.canvas);
+    expect(pad.strokes[0].points?.every((p) => p.time == null)).toBeTrue();
+  });
+
+  it('should simplify strokes as they are drawn when enabled', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, simplifyTolerance: 0.01 });
+    const removed: Array<number> = [];
+    pad.on('simplify', (e) => removed.push(e.removedPoints));
+    dispatchMouseEvent(pad.canvas, 'mousedown', 10, 10);
+    dispatchMouseEvent(pad.canvas, 'mousemove', 30, 10);
+    dispatchMouseEvent(pad.canvas, 'mouseup', 50, 10);
+
+    expect(pad.strokes[0].points?.length).toEqual(2);
+    expect(removed.length).toEqual(1);
+    expect(removed[0]).toBeGreaterThan(0);
+  });
+
+  it('should simplify existing strokes as a change that can be undone', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    dispatchMouseEvent(pad.canvas, 'mousedown', 10, 10);
+    dispatchMouseEvent(pad.canvas, 'mousemove', 30, 10);
+    dispatchMouseEvent(pad.canvas, 'mouseup', 50, 10);
+    const points = pad.strokes[0].points?.length as number;
+
+    expect(pad.simplify()).toEqual(points - 2);
+    expect(pad.strokes[0].points?.length).toEqual(2);
+    expect(pad.simplify()).toEqual(0);
+
+    pad.undo();
+    expect(pad.strokes[0].points?.length).toEqual(points);
+  });
+
+  it('should erase the middle of a simplified stroke', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, simplifyTolerance: 0.01 });
+    dispatchMouseEvent(pad.canvas, 'mousedown', 10, 50);
+    dispatchMouseEvent(pad.canvas, 'mousemove', 50, 50);
+    dispatchMouseEvent(pad.canvas, 'mouseup', 90, 50);
+    expect(pad.strokes[0].points?.length).toEqual(2);
+
+    pad.toggleEraserMode();
+    dragWithMouse(pad.canvas, [50, 45], [50, 55]);
+
+    expect(pad.strokes.length).toEqual(2);
+  });
+
+  it('should not darken a highlighter where it overlaps itself', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, backgroundColor: '#fff' });
+    pad.loadJSON({
+      layers: [
+        {
+          strokes: [
+            {
+              points: [0.1, 0.5, 0.9, 0.5, 0.9, 0.2, 0.5, 0.2, 0.5, 0.8].reduce(
+                (points: Array<PointI>, v, i, all) => (i % 2 === 0 ? points.concat({ x: v, y: all[i + 1] }) : points),
+                [],
+              ),
+              width: 0.1,
+              color: '#ff0',
+              brush: 'highlighter',
+            },
+          ],
+        },
+      ],
+    });
+
+    const ctx = pad.canvas.getContext('2d') as CanvasRenderingContext2D;
+    const crossing = Array.from(ctx.getImageData(50, 50, 1, 1).data);
+    expect(crossing).toEqual(Array.from(ctx.getImageData(30, 50, 1, 1).data));
+    expect(crossing[2]).toBeGreaterThan(0);
+    expect(crossing[2]).toBeLessThan(255);
+  });
+
+  it('should draw every brush the same after loading and resizing', function () {
+    ['pen', 'highlighter', 'marker', 'dashed', 'calligraphy'].forEach((brush) => {
+      const data = {
+        layers: [
+          {
+            strokes: [
+              {
+                points: [
+                  { x: 0.1, y: 0.1 },
+                  { x: 0.5, y: 0.8 },
+                  { x: 0.9, y: 0.3 },
+                ],
+                size: 0.05,
+                color: '#f00',
+                brush: brush as StrokeI['brush'],
+              },
+            ],
+          },
+        ],
+      };
+      const pad = new Sketchpad(document.createElement('div'), { width: 200, height: 200, data: data });
+      const loaded = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      loaded.loadJSON(pad.toJSON());
+      pad.resize(100);
+
+      expect(pad.toDataURL('image/png')).toEqual(loaded.toDataURL('image/png'));
+      if (brush !== 'pen') {
+        const pen = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+        pen.loadJSON({ layers: [{ strokes: [{ ...data.layers[0].strokes[0], brush: 'pen' }] }] });
+        expect(pad.toDataURL('image/png')).not.toEqual(pen.toDataURL('image/png'));
+      }
+    });
+  });
+
+  it('should draw new strokes with the chosen brush', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, line: { brush: 'dashed' } });
+    drawStrokeWithMouse(pad.canvas);
+    pad.setBrush('highlighter');
+    drawStrokeWithMouse(pad.canvas);
+
+    expect(pad.strokes.map((s) => s.brush)).toEqual(['dashed', 'highlighter']);
+  });
+
+  it('should add text that scales with the canvas and shows in images', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    const blank = pad.toDataURL('image/png');
+    const id = pad.addText('Label', { x: 10, y: 20 }, { size: 20, color: '#f00' });
+
+    expect(pad.getTexts()).toEqual([jasmine.objectContaining({ id: id, text: 'Label', x: 0.1, y: 0.2, size: 0.2 })]);
+    expect(pad.toDataURL('image/png')).not.toEqual(blank);
+
+    pad.resize(200);
+    const ctx = pad.canvas.getContext('2d') as CanvasRenderingContext2D;
+    const isInked = (x: number, y: number, width: number, height: number) =>
+      Array.from(ctx.getImageData(x, y, width, height).data).some((v, i) => i % 4 === 3 && v > 0);
+    expect(isInked(20, 40, 100, 40)).toBeTrue();
+    expect(isInked(0, 0, 200, 35)).toBeFalse();
+
+    const other = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    other.loadJSON(pad.toJSON());
+    expect(other.getTexts()).toEqual(pad.getTexts());
+  });
+
+  it('should remove and change text as changes that can be undone', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    const id = pad.addText('Label', { x: 10, y: 20 });
+
+    pad.setText(id, 'Renamed');
+    expect(pad.getTexts()[0].text).toEqual('Renamed');
+    pad.removeText(id);
+    expect(pad.getTexts().length).toEqual(0);
+
+    pad.undo();
+    expect(pad.getTexts()[0].text).toEqual('Renamed');
+    pad.undo();
+    expect(pad.getTexts()[0].text).toEqual('Label');
+    expect(() => pad.removeText('missing')).toThrowError('Unknown text "missing"');
+  });
+
+  it('should type and edit text with the text tool', function () {
+    const el = document.createElement('div');
+    const pad = new Sketchpad(el, { width: 100, height: 100, tool: 'text', text: { size: 10, font: 'serif' } });
+    const typeInto = (value: string, key: string) => {
+      const textarea = el.querySelector('textarea') as HTMLTextAreaElement;
+      textarea.value = value;
+      textarea.dispatchEvent(new window.KeyboardEvent('keydown', { key: key }));
+    };
+
+    dispatchMouseEvent(pad.canvas, 'mousedown', 20, 30);
+    typeInto('Hello', 'Enter');
+    expect(el.querySelector('textarea')).toBeNull();
+    expect(pad.getTexts()).toEqual([jasmine.objectContaining({ text: 'Hello', x: 0.2, y: 0.3, font: 'serif' })]);
+
+    dispatchMouseEvent(pad.canvas, 'mousedown', 22, 32);
+    expect((el.querySelector('textarea') as HTMLTextAreaElement).value).toEqual('Hello');
+    typeInto('Ignored', 'Escape');
+    expect(pad.getTexts()[0].text).toEqual('Hello');
+
+    dispatchMouseEvent(pad.canvas, 'mousedown', 22, 32);
+    typeInto('', 'Enter');
+    expect(pad.getTexts().length).toEqual(0);
+    pad.undo();
+    expect(pad.getTexts()[0].text).toEqual('Hello');
+  });
+
+  it('should draw a paper template under the drawing that the eraser leaves alone', function () {
+    const pad = new Sketchpad(document.createElement('div'), {
+      width: 100,
+      height: 100,
+      background: { template: 'grid', spacing: 0.1, templateColor: '#00f' },
+    });
+    const pixel = (x: number, y: number) =>
+      Array.from((pad.canvas.getContext('2d') as CanvasRenderingContext2D).getImageData(x, y, 1, 1).data);
+    expect(pixel(10, 5)[2]).toBeGreaterThan(0);
+    expect(pixel(5, 5)[3]).toEqual(0);
+
+    pad.drawLine({ x: 0, y: 10 }, { x: 100, y: 10 }, { size: 5, color: '#f00' });
+    pad.toggleEraserMode();
+    dragWithMouse(pad.canvas, [5, 10], [95, 10]);
+    expect(pad.strokes.every((s) => (s.points || []).length < 2)).toBeTrue();
+    expect(pixel(10, 5)[2]).toBeGreaterThan(0);
+
+    pad.setBackground({ template: 'dot', spacing: 0.1 });
+    expect(pixel(10, 5)[3]).toEqual(0);
+    expect(pixel(10, 10)[3]).toBeGreaterThan(0);
+  });
+
+  it('should fit or fill the canvas with a background image', function () {
+    const image = document.createElement('canvas');
+    image.width = 50;
+    image.height = 100;
+    const imageCtx = image.getContext('2d') as CanvasRenderingContext2D;
+    imageCtx.fillStyle = '#f00';
+    imageCtx.fillRect(0, 0, 50, 100);
+
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+    const alpha = (x: number, y: number) =>
+      (pad.canvas.getContext('2d') as CanvasRenderingContext2D).getImageData(x, y, 1, 1).data[3];
+    pad.setBackground({ image: image, scale: 'fit' });
+    expect(alpha(50, 50)).toEqual(255);
+    expect(alpha(10, 50)).toEqual(0);
+
+    pad.setBackground({ image: image, scale: 'fill' });
+    expect(alpha(10, 50)).toEqual(255);
+  });
+
+  it('should leave the background out of images on request', function () {
+    const data = {
+      layers: [
+        {
+          strokes: [
+            {
+              points: [
+                { x: 0.1, y: 0.1 },
+                { x: 0.9, y: 0.9 },
+              ],
+              size: 0.05,
+            },
+          ],
+        },
+      ],
+    };
+    const pad = new Sketchpad(document.createElement('div'), {
+      width: 100,
+      height: 100,
+      backgroundColor: '#ff0',
+      background: { template: 'ruled' },
+      data: data,
+    });
+    const plain = new Sketchpad(document.createElement('div'), { width: 100, height: 100, data: data });
+
+    expect(pad.toDataURL('image/png')).not.toEqual(plain.toDataURL('image/png'));
+    expect(pad.toDataURL('image/png', { background: false })).toEqual(plain.toDataURL('image/png'));
+  });
+
+  it('should scale the backing store by the pixel ratio', function () {
+    const data = {
+      layers: [
+        {
+          strokes: [
+            {
+              points: [
+                { x: 0.1, y: 0.1 },
+                { x: 0.9, y: 0.9 },
+              ],
+              size: 0.05,
+            },
+          ],
+        },
+      ],
+    };
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 50, pixelRatio: 2, data: data });
+    const plain = new Sketchpad(document.createElement('div'), { width: 100, height: 50, data: data });
+    expect(pad.canvas.width).toEqual(200);
+    expect(pad.canvas.style.width).toEqual('100px');
+    expect(pad.getCanvasSize()).toEqual({ width: 100, height: 50 });
+    expect(pad.toDataURL('image/png')).toEqual(plain.toDataURL('image/png'));
+    expect(pad.toDataURL('image/png', { pixelRatio: 2 })).toEqual(pad.canvas.toDataURL('image/png'));
+
+    dragWithMouse(pad.canvas, [10, 40], [90, 40]);
+    const points = pad.strokes[1].points || [];
+    expect(points[0].x).toBeCloseTo(0.1);
+    expect(points[0].y).toBeCloseTo(0.8);
+    expect(pad.strokes[1].width).toEqual(0.05);
+
+    pad.setPixelRatio(3);
+    expect(pad.canvas.width).toEqual(300);
+    expect(pad.getPixelRatio()).toEqual(3);
+    const alpha = (x: number, y: number) =>
+      (pad.canvas.getContext('2d') as CanvasRenderingContext2D).getImageData(x, y, 1, 1).data[3];
+    expect(alpha(150, 120)).toEqual(255);
+    expect(() => pad.setPixelRatio(0)).toThrowError('Pixel ratio must be positive');
+  });
+
+  it('should steady strokes with the stabilizer and show its leash', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, line: { stabilizer: 10 } });
+    const ctx = pad.canvas.getContext('2d') as CanvasRenderingContext2D;
+    const arc = spyOn(ctx, 'arc').and.callThrough();
+    dispatchMouseEvent(pad.canvas, 'mousedown', 10, 10);
+    dispatchMouseEvent(pad.canvas, 'mousemove', 15, 12);
+    dispatchMouseEvent(pad.canvas, 'mousemove', 30, 10);
+
+    const points = pad.strokes[0].points || [];
+    expect(points.length).toEqual(2);
+    expect(points[1].x).toBeCloseTo(0.2);
+    expect(points[1].y).toBeCloseTo(0.1);
+    expect(arc).toHaveBeenCalledWith(30, 10, 10, 0, 2 * Math.PI);
+
+    // The stroke ends at the pen rather than the pointer
+    dispatchMouseEvent(pad.canvas, 'mouseup', 30, 14);
+    expect(Math.max(...(pad.strokes[0].points || []).map((p) => p.x))).toBeLessThan(0.21);
+
+    arc.calls.reset();
+    pad.setStabilizer(0);
+    dragWithMouse(pad.canvas, [10, 50], [12, 50]);
+    expect(Math.max(...(pad.strokes[1].points || []).map((p) => p.x))).toBeGreaterThan(0.105);
+    expect(arc).not.toHaveBeenCalled();
+    expect(() => pad.setStabilizer(-1)).toThrowError('Stabilizer must not be negative');
+  });
+
+  it('should keep brush sizes through repeated resizing', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, line: { size: 5 } });
+    pad.setEraserSize(20);
+    [37, 211, 59, 100].forEach((width) => pad.resize(width));
+    expect(pad.opts.line?.size).toEqual(5);
+
+    pad.resize(200);
+    expect(pad.opts.line?.size).toEqual(10);
+    pad.setLineSize(4);
+    pad.resize(100);
+    expect(pad.opts.line?.size).toEqual(2);
+  });
+
+  it('should leave nothing behind once destroyed', function () {
+    const spies = [window, HTMLCanvasElement.prototype].map((target) => ({
+      add: spyOn(target, 'addEventListener').and.callThrough(),
+      remove: spyOn(target, 'removeEventListener').and.callThrough(),
+    }));
+    const el = document.createElement('div');
+    document.body.appendChild(el);
+    const pad = new Sketchpad(el, { width: 100, height: 100, autoResize: 'fit-width', viewportGestures: true });
+    pad.setTool('text');
+    dispatchMouseEvent(pad.canvas, 'mousedown', 10, 10);
+    expect(el.childNodes.length).toEqual(2);
+
+    pad.destroy();
+    expect(el.childNodes.length).toEqual(0);
+    spies.forEach(({ add, remove }) => {
+      expect(add.calls.count()).toBeGreaterThan(0);
+      add.calls.allArgs().forEach(([name, listener]) => {
+        expect(remove.calls.allArgs().some((args) => args[0] === name && args[1] === listener)).toBeTrue();
+      });
+    });
+    expect(() => pad.undo()).toThrowError('Sketchpad has been destroyed');
+    expect(() => pad.strokes).toThrowError('Sketchpad has been destroyed');
+    expect(() => pad.destroy()).not.toThrow();
+    el.remove();
+  });
+
+  it('should follow the pixel ratio with a single media query listener', function () {
+    const listeners: Array<() => void> = [];
+    const matchMedia = jasmine.createSpy('matchMedia').and.callFake(() => ({
+      addEventListener: (name: string, listener: () => void) => listeners.push(listener),
+      removeEventListener: (name: string, listener: () => void) => listeners.splice(listeners.indexOf(listener), 1),
+    }));
+    const devicePixelRatio = Object.getOwnPropertyDescriptor(window, 'devicePixelRatio');
+    Object.defineProperty(window, 'matchMedia', { value: matchMedia, configurable: true });
+    try {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      expect(listeners.length).toEqual(1);
+      [2, 1, 3].forEach((ratio) => {
+        Object.defineProperty(window, 'devicePixelRatio', { value: ratio, configurable: true });
+        listeners[0]();
+      });
+      expect(listeners.length).toEqual(1);
+      expect(pad.getPixelRatio()).toEqual(3);
+      expect(matchMedia).toHaveBeenCalledWith('(resolution: 3dppx)');
+
+      pad.destroy();
+      expect(listeners.length).toEqual(0);
+    } finally {
+      delete (window as { matchMedia?: unknown }).matchMedia;
+      delete (window as { devicePixelRatio?: unknown }).devicePixelRatio;
+      if (devicePixelRatio) {
+        Object.defineProperty(window, 'devicePixelRatio', devicePixelRatio);
+      }
+    }
+  });
+
+  describe('image export', function () {
+    function createPad(): Sketchpad {
+      return new Sketchpad(document.createElement('div'), {
+        width: 100,
+        height: 100,
+        backgroundColor: '#fff',
+        background: { template: 'grid' },
+        data: {
+          layers: [
+            {
+              strokes: [
+                {
+                  points: [
+                    { x: 0.2, y: 0.2 },
+                    { x: 0.6, y: 0.2 },
+                  ],
+                  width: 0.04,
+                  color: '#000',
+                  cap: 'round',
+                },
+              ],
+            },
+          ],
+        },
+      });
+    }
+
+    // The canvas each image is encoded from
+    function getExportedCanvas(spy: jasmine.Spy): HTMLCanvasElement {
+      return spy.calls.mostRecent().object as HTMLCanvasElement;
+    }
+
+    function getPixel(canvas: HTMLCanvasElement, x: number, y: number): Array<number> {
+      return Array.from((canvas.getContext('2d') as CanvasRenderingContext2D).getImageData(x, y, 1, 1).data);
+    }
+
+    it('should crop, pad and scale the drawing whatever the view', function () {
+      const pad = createPad();
+      pad.zoomTo(3);
+      pad.selectAll();
+      const spy = spyOn(HTMLCanvasElement.prototype, 'toDataURL').and.callThrough();
+      pad.toDataURL('image/png', { crop: true, padding: 3, pixelRatio: 2, background: false });
+
+      const canvas = getExportedCanvas(spy);
+      expect(canvas).not.toBe(pad.canvas);
+      expect([canvas.width, canvas.height]).toEqual([100, 20]);
+      expect(getPixel(canvas, 50, 10)).toEqual([0, 0, 0, 255]);
+      expect(getPixel(canvas, 2, 2)[3]).toEqual(0);
+    });
+
+    it('should keep the whole canvas when there is nothing to crop to', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 60, height: 40 });
+      const spy = spyOn(HTMLCanvasElement.prototype, 'toDataURL').and.callThrough();
+      pad.toDataURL('image/png', { crop: true, padding: 5 });
+
+      expect([getExportedCanvas(spy).width, getExportedCanvas(spy).height]).toEqual([70, 50]);
+      expect(() => pad.toDataURL('image/png', { padding: -1 })).toThrowError('Padding must not be negative');
+    });
+
+    it('should replace the background with a forced color', function () {
+      const pad = createPad();
+      const spy = spyOn(HTMLCanvasElement.prototype, 'toDataURL').and.callThrough();
+      pad.toDataURL('image/png');
+      // The grid is drawn every 5 pixels
+      expect(getPixel(getExportedCanvas(spy), 10, 50)).not.toEqual([255, 255, 255, 255]);
+
+      pad.toDataURL('image/png', { background: '#f00' });
+      expect(getPixel(getExportedCanvas(spy), 10, 50)).toEqual([255, 0, 0, 255]);
+      expect(getPixel(getExportedCanvas(spy), 40, 20)).toEqual([0, 0, 0, 255]);
+    });
+
+    it('should encode a blob with the given type and quality', async function () {
+      const pad = createPad();
+      const spy = spyOn(HTMLCanvasElement.prototype, 'toBlob').and.callFake((callback, type) =>
+        callback(new Blob(['image'], { type: type })),
+      );
+
+      const blob = await pad.toBlob('image/jpeg', { quality: 0.8, pixelRatio: 2 });
+      expect(blob.type).toEqual('image/jpeg');
+      expect(spy).toHaveBeenCalledWith(jasmine.any(Function), 'image/jpeg', 0.8);
+      expect(getExportedCanvas(spy).width).toEqual(200);
+
+      spy.and.callFake((callback) => callback(null));
+      await expectAsync(pad.toBlob()).toBeRejectedWithError('Could not encode the image as image/png');
+    });
+  });
+
+  describe('auto-resizing', function () {
+    let observers: Array<{ callback: () => void }>;
+
+    beforeEach(function () {
+      observers = [];
+      jasmine.clock().install();
+      Object.defineProperty(window, 'ResizeObserver', {
+        value: class {
+          constructor(public callback: () => void) {
+            observers.push(this);
+          }
+          observe() {} // eslint-disable-line @typescript-eslint/no-empty-function
+          disconnect() {
+            observers.splice(observers.indexOf(this), 1);
+          }
+        },
+        configurable: true,
+      });
+    });
+
+    afterEach(function () {
+      jasmine.clock().uninstall();
+      delete (window as { ResizeObserver?: unknown }).ResizeObserver;
+    });
+
+    it('should fit the container once it stops resizing', function () {
+      const el = document.createElement('div');
+      const setSize = (width: number, height: number) => {
+        Object.defineProperty(el, 'clientWidth', { value: width, configurable: true });
+        Object.defineProperty(el, 'clientHeight', { value: height, configurable: true });
+      };
+      setSize(100, 300);
+      const pad = new Sketchpad(el, { aspectRatio: 0.5, autoResize: 'fit-width' });
+      expect(pad.getCanvasSize()).toEqual({ width: 100, height: 50 });
+
+      setSize(150, 300);
+      observers.forEach((o) => o.callback());
+      jasmine.clock().tick(50);
+      setSize(200, 300);
+      observers.forEach((o) => o.callback());
+      expect(pad.getCanvasSize()).toEqual({ width: 100, height: 50 });
+      jasmine.clock().tick(100);
+      expect(pad.getCanvasSize()).toEqual({ width: 200, height: 100 });
+
+      pad.setAutoResize('fit-height');
+      expect(pad.getCanvasSize()).toEqual({ width: 600, height: 300 });
+      pad.setAutoResize('contain');
+      expect(pad.getCanvasSize()).toEqual({ width: 200, height: 100 });
+    });
+
+    it('should keep the proportions of a canvas given its size without an aspect ratio', function () {
+      const el = document.createElement('div');
+      Object.defineProperty(el, 'clientWidth', { value: 200, configurable: true });
+      Object.defineProperty(el, 'clientHeight', { value: 300, configurable: true });
+      const pad = new Sketchpad(el, { width: 400, height: 200 });
+
+      pad.setAutoResize('fit-width');
+      expect(pad.getCanvasSize()).toEqual({ width: 200, height: 100 });
+      pad.setAutoResize('fit-height');
+      expect(pad.getCanvasSize()).toEqual({ width: 600, height: 300 });
+      pad.setAutoResize('contain');
+      expect(pad.getCanvasSize()).toEqual({ width: 200, height: 100 });
+    });
+  });
+
+  describe('viewport', function () {
+    it('should draw and erase under the cursor at any zoom', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      pad.zoomTo(2, { x: 0, y: 0 });
+      dragWithMouse(pad.canvas, [20, 20], [60, 20]);
+
+      const points = pad.strokes[0].points || [];
+      expect(points[0].x).toBeCloseTo(0.1);
+      expect(points[0].y).toBeCloseTo(0.1);
+      expect(points[points.length - 1].x).toBeCloseTo(0.3);
+      expect(pad.strokes[0].width).toBeCloseTo(0.025);
+
+      pad.toggleEraserMode();
+      dispatchMouseEvent(pad.canvas, 'mousedown', 40, 20);
+      dispatchMouseEvent(pad.canvas, 'mouseup', 40, 20);
+      expect(pad.strokes.length).toEqual(2);
+      expect(Math.max(...(pad.strokes[0].points || []).map((p) => p.x))).toBeCloseTo(0.15, 1);
+    });
+
+    it('should fit the view to the drawing and reset it', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      const views: Array<ViewI> = [];
+      pad.on('view', (view) => views.push(view));
+      pad.drawLine({ x: 10, y: 10 }, { x: 30, y: 20 }, { size: 2 });
+
+      pad.fitToContent(0);
+      expect(pad.getView()).toEqual({ zoom: 5, x: -50, y: -25 });
+      pad.resetView();
+      expect(pad.getView()).toEqual({ zoom: 1, x: 0, y: 0 });
+      expect(views.length).toEqual(2);
+      expect(() => pad.zoomTo(0)).toThrowError('Zoom must be positive');
+    });
+
+    it('should zoom about the cursor with the wheel', function () {
+      const wheel = (pad: Sketchpad) => {
+        const event = new Event('wheel');
+        Object.assign(event, { clientX: 50, clientY: 20, deltaY: -100, deltaMode: 0 });
+        pad.canvas.dispatchEvent(event);
+      };
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      wheel(pad);
+      expect(pad.getView().zoom).toEqual(1);
+
+      const zoomable = new Sketchpad(document.createElement('div'), {
+        width: 100,
+        height: 100,
+        viewportGestures: true,
+      });
+      wheel(zoomable);
+      const view = zoomable.getView();
+      expect(view.zoom).toBeGreaterThan(1);
+      expect(view.x + 50 * view.zoom).toBeCloseTo(50);
+      expect(view.y + 20 * view.zoom).toBeCloseTo(20);
+    });
+
+    it('should pan and zoom with two fingers', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, viewportGestures: true });
+      dispatchTouches(pad.canvas, 'touchstart', [[1, 20, 50]]);
+      dispatchTouches(pad.canvas, 'touchstart', [[2, 80, 50]]);
+      dispatchTouches(pad.canvas, 'touchmove', [
+        [1, 20, 50],
+        [2, 80, 50],
+      ]);
+      dispatchTouches(pad.canvas, 'touchmove', [
+        [1, 0, 60],
+        [2, 100, 60],
+      ]);
+      dispatchTouches(pad.canvas, 'touchend', [
+        [1, 0, 60],
+        [2, 100, 60],
+      ]);
+
+      const view = pad.getView();
+      expect(view.zoom).toBeCloseTo(100 / 60);
+      expect(view.x + 50 * view.zoom).toBeCloseTo(50);
+      expect(view.y + 50 * view.zoom).toBeCloseTo(60);
+      expect(pad.strokes.length).toEqual(0);
+    });
+
+    it('should pan by dragging with space held', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, viewportGestures: true });
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: ' ' }));
+      dragWithMouse(pad.canvas, [10, 10], [30, 40]);
+      expect(pad.getView()).toEqual({ zoom: 1, x: 20, y: 30 });
+      expect(pad.strokes.length).toEqual(0);
+
+      window.dispatchEvent(new KeyboardEvent('keyup', { key: ' ' }));
+      dragWithMouse(pad.canvas, [30, 40], [50, 40]);
+      expect(pad.strokes.length).toEqual(1);
+      expect(pad.strokes[0].points?.[0].x).toBeCloseTo(0.1);
+    });
+  });
+
+  describe('playback', function () {
+    beforeEach(function () {
+      jasmine.clock().install();
+      jasmine.clock().mockDate(new Date(0));
+    });
+
+    afterEach(function () {
+      jasmine.clock().uninstall();
+    });
+
+    it('should play, pause and seek through the drawing', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      pad.loadJSON({
+        layers: [
+          {
+            strokes: [
+              {
+                points: [
+                  { x: 0.1, y: 0.1, time: 0 },
+                  { x: 0.5, y: 0.1, time: 400 },
+                ],
+                width: 0.01,
+              },
+              {
+                points: [
+                  { x: 0.1, y: 0.5, time: 500 },
+                  { x: 0.5, y: 0.5, time: 1000 },
+                ],
+                width: 0.01,
+              },
+            ],
+          },
+        ],
+      });
+      const progress: Array<number> = [];
+      pad.on('progress', (e) => progress.push(e.position));
+      expect(pad.getPlaybackDuration()).toEqual(1000);
+
+      pad.play(2);
+      expect(pad.isPlaying()).toBeTrue();
+      jasmine.clock().tick(200);
+      expect(progress[progress.length - 1]).toBeCloseTo(400, -2);
+
+      pad.pause();
+      const paused = progress.length;
+      jasmine.clock().tick(1000);
+      expect(progress.length).toEqual(paused);
+      expect(pad.isPlaying()).toBeFalse();
+
+      pad.seek(700);
+      expect(progress[progress.length - 1]).toEqual(700);
+      pad.play();
+      jasmine.clock().tick(1000);
+      expect(progress[progress.length - 1]).toEqual(1000);
+      expect(pad.isPlaying()).toBeFalse();
+
+      pad.stopPlayback();
+      expect(pad.strokes.length).toEqual(2);
+    });
+
+    it('should not draw during playback', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      pad.drawLine({ x: 10, y: 10 }, { x: 20, y: 20 }, { size: 5 });
+      pad.seek(0);
+      drawStrokeWithMouse(pad.canvas);
+      expect(pad.strokes.length).toEqual(1);
+
+      pad.stopPlayback();
+      drawStrokeWithMouse(pad.canvas);
+      expect(pad.strokes.length).toEqual(2);
+    });
+  });
+
+  describe('with pointer events', function () {
+    beforeEach(function () {
+      Object.defineProperty(window, 'PointerEvent', { value: window.MouseEvent, configurable: true });
+    });
+
+    afterEach(function () {
+      delete (window as { PointerEvent?: unknown }).PointerEvent;
+    });
+
+    it('should record pen pressure and keep it through JSON', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      drawStrokeWithPointer(pad.canvas, 'pen', [0.2, 0.8, 0.8]);
+
+      const data = pad.toJSON();
+      const pressures = (data.layers?.[0].strokes?.[0].points || []).map((p) => p.pressure as number);
+      expect(pressures.length).toBeGreaterThan(3);
+      expect(pressures[0]).toEqual(0.2);
+      expect(Math.max(...pressures)).toBeCloseTo(0.8);
+      expect(pressures.some((p) => p > 0.2 && p < 0.8)).toBeTrue();
+
+      const other = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      other.loadJSON(data);
+      expect(other.strokes[0].points?.map((p) => p.pressure)).toEqual(pressures);
+    });
+
+    it('should not thin the end of a pen stroke as the pen lifts', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      drawStrokeWithPointer(pad.canvas, 'pen', [0.6, 0.8, 0]);
+
+      const pressures = (pad.strokes[0].points || []).map((p) => p.pressure as number);
+      expect(pressures[pressures.length - 1]).toBeCloseTo(0.8);
+      expect(Math.min(...pressures)).toBeCloseTo(0.6);
+    });
+
+    it('should not record pressure for a mouse', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      drawStrokeWithPointer(pad.canvas, 'mouse', [0.5, 0.5, 0.5]);
+
+      expect(pad.strokes.length).toEqual(1);
+      expect(pad.strokes[0].points?.every((p) => p.pressure == null)).toBeTrue();
+    });
+
+    it('should only draw with the pointers the input policy allows', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, inputPolicy: 'pen' });
+      drawStrokeWithPointer(pad.canvas, 'touch', [0.5, 0.5, 0.5]);
+      drawStrokeWithPointer(pad.canvas, 'mouse', [0.5, 0.5, 0.5]);
+      expect(pad.strokes.length).toEqual(0);
+      drawStrokeWithPointer(pad.canvas, 'pen', [0.5, 0.5, 0.5]);
+      expect(pad.strokes.length).toEqual(1);
+
+      pad.setInputPolicy('pen-and-mouse');
+      drawStrokeWithPointer(pad.canvas, 'mouse', [0.5, 0.5, 0.5]);
+      drawStrokeWithPointer(pad.canvas, 'touch', [0.5, 0.5, 0.5]);
+      expect(pad.strokes.length).toEqual(2);
+    });
+
+    it('should finish a stroke started before the input policy left its pointer out', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100 });
+      const dispatchTouch = (type: string, x: number) => {
+        const event = new Event(type);
+        Object.assign(event, { pointerId: 1, pointerType: 'touch', clientX: x, clientY: 50 });
+        pad.canvas.dispatchEvent(event);
+      };
+      dispatchTouch('pointerdown', 10);
+      dispatchTouch('pointermove', 30);
+      pad.setInputPolicy('pen');
+      dispatchTouch('pointermove', 50);
+      dispatchTouch('pointerup', 70);
+
+      expect(pad.strokes.length).toEqual(1);
+      expect(pad.strokes[0].points?.[pad.strokes[0].points.length - 1].x).toBeGreaterThan(0.5);
+      expect(pad.canUndo()).toBeTrue();
+
+      drawStrokeWithPointer(pad.canvas, 'touch', [0.5, 0.5, 0.5]);
+      expect(pad.strokes.length).toEqual(1);
+    });
+
+    it('should let fingers scroll the page when they do not draw', function () {
+      const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, fingerScrolling: true });
+      expect(pad.canvas.style.touchAction).toEqual('none');
+
+      pad.setInputPolicy('pen');
+      expect(pad.canvas.style.touchAction).toEqual('pan-x pan-y');
+      const event = new Event('pointerdown', { cancelable: true });
+      Object.assign(event, { pointerId: 1, pointerType: 'touch', clientX: 10, clientY: 10 });
+      pad.canvas.dispatchEvent(event);
+      expect(event.defaultPrevented).toBeFalse();
+
+      pad.setFingerScrolling(false);
+      expect(pad.canvas.style.touchAction).toEqual('none');
+    });
+
+    describe('with palm rejection', function () {
+      function dispatchContact(canvas: HTMLCanvasElement, type: string, id: number, size: number, x: number): void {
+        const event = new Event(type);
+        Object.assign(event, {
+          pointerId: id,
+          pointerType: 'touch',
+          clientX: x,
+          clientY: 50,
+          width: size,
+          height: size,
+        });
+        canvas.dispatchEvent(event);
+      }
+
+      beforeEach(function () {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date(2020, 0, 1));
+      });
+
+      afterEach(function () {
+        jasmine.clock().uninstall();
+      });
+
+      it('should roll back a stroke when a larger contact lands just after it starts', function () {
+        const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, palmRejection: true });
+        const cancelled = jasmine.createSpy('strokecancel');
+        pad.on('strokecancel', cancelled);
+        dispatchContact(pad.canvas, 'pointerdown', 1, 4, 10);
+        dispatchContact(pad.canvas, 'pointermove', 1, 4, 20);
+        jasmine.clock().tick(100);
+        dispatchContact(pad.canvas, 'pointerdown', 2, 30, 60);
+        dispatchContact(pad.canvas, 'pointermove', 2, 30, 70);
+        dispatchContact(pad.canvas, 'pointerup', 1, 4, 20);
+        dispatchContact(pad.canvas, 'pointerup', 2, 30, 70);
+
+        expect(pad.strokes.length).toEqual(0);
+        expect(cancelled).toHaveBeenCalledTimes(1);
+        expect(pad.canUndo()).toBeFalse();
+
+        // The palm is forgotten once lifted
+        dispatchContact(pad.canvas, 'pointerdown', 2, 4, 60);
+        dispatchContact(pad.canvas, 'pointerup', 2, 4, 70);
+        expect(pad.strokes.length).toEqual(1);
+      });
+
+      it('should leave a second finger to a pinch gesture', function () {
+        const pad = new Sketchpad(document.createElement('div'), {
+          width: 100,
+          height: 100,
+          palmRejection: true,
+          viewportGestures: true,
+        });
+        dispatchContact(pad.canvas, 'pointerdown', 1, 4, 10);
+        dispatchContact(pad.canvas, 'pointermove', 1, 4, 20);
+        jasmine.clock().tick(100);
+        dispatchContact(pad.canvas, 'pointerdown', 2, 30, 60);
+        dispatchContact(pad.canvas, 'pointermove', 1, 4, 20);
+        dispatchContact(pad.canvas, 'pointermove', 2, 30, 60);
+        dispatchContact(pad.canvas, 'pointermove', 2, 30, 100);
+
+        expect(pad.strokes.length).toEqual(0);
+        expect(pad.getView().zoom).toBeCloseTo(2);
+      });
+
+      it('should keep strokes that have been drawn for a while, or by a pen', function () {
+        const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, palmRejection: true });
+        dispatchContact(pad.canvas, 'pointerdown', 1, 4, 10);
+        jasmine.clock().tick(600);
+        dispatchContact(pad.canvas, 'pointerdown', 2, 30, 60);
+        dispatchContact(pad.canvas, 'pointerup', 1, 4, 20);
+        dispatchContact(pad.canvas, 'pointerup', 2, 30, 70);
+        expect(pad.strokes.length).toEqual(2);
+
+        const pen = new Event('pointerdown');
+        Object.assign(pen, { pointerId: 3, pointerType: 'pen', clientX: 10, clientY: 10, width: 1, height: 1 });
+        pad.canvas.dispatchEvent(pen);
+        dispatchContact(pad.canvas, 'pointerdown', 4, 30, 60);
+        expect(pad.strokes.length).toEqual(4);
+      });
+    });
+  });
+
+  it('should treat stylus touches as a pen', function () {
+    const pad = new Sketchpad(document.createElement('div'), { width: 100, height: 100, inputPolicy: 'pen' });
+    ['touchstart', 'touchmove', 'touchend'].forEach((type, i) => {
+      const finger = new Event(type);
+      Object.assign(finger, { changedTouches: [{ identifier: 1, clientX: 10 + i * 10, clientY: 10 }] });
+      pad.canvas.dispatchEvent(finger);
+    });
+    expect(pad.strokes.length).toEqual(0);
+
+    ['touchstart', 'touchmove', 'touchend'].forEach((type, i) => {
+      const stylus = new Event(type);
+      Object.assign(stylus, {
+        changedTouches: [{ identifier: 2, clientX: 10 + i * 10, clientY: 10, touchType: 'stylus' }],
+      });
+      pad.canvas.dispatchEvent(stylus);
+    });
+    expect(pad.strokes.length).toEqual(1);
+  });
 });
 
 function drawStrokeWithMouse(canvas: HTMLCanvasElement): void {
@@ -35,3 +1332,37 @@ function drawStrokeWithMouse(canvas: HTMLCanvasElement): void {
   Object.assign(mouseupEvent, { clientX: 20, clientY: 20 });
   canvas.dispatchEvent(mouseupEvent);
 }
+
+function dispatchMouseEvent(
+  canvas: HTMLCanvasElement,
+  type: string,
+  clientX: number,
+  clientY: number,
+  shiftKey = false,
+): void {
+  const event = new Event(type);
+  Object.assign(event, { clientX, clientY, shiftKey });
+  canvas.dispatchEvent(event);
+}
+
+function dragWithMouse(canvas: HTMLCanvasElement, from: [number, number], to: [number, number]): void {
+  dispatchMouseEvent(canvas, 'mousedown', from[0], from[1]);
+  dispatchMouseEvent(canvas, 'mousemove', to[0], to[1]);
+  dispatchMouseEvent(canvas, 'mouseup', to[0], to[1]);
+}
+
+function drawStrokeWithPointer(canvas: HTMLCanvasElement, pointerType: string, pressures: Array<number>): void {
+  ['pointerdown', 'pointermove', 'pointerup'].forEach((type, i) => {
+    const event = new Event(type);
+    Object.assign(event, { clientX: 10 + i * 20, clientY: 10 + i * 20, pointerType, pressure: pressures[i] });
+    canvas.dispatchEvent(event);
+  });
+}
+
+function dispatchTouches(canvas: HTMLCanvasElement, type: string, touches: Array<[number, number, number]>): void {
+  const event = new Event(type);
+  Object.assign(event, {
+    changedTouches: touches.map(([identifier, clientX, clientY]) => ({ identifier, clientX, clientY })),
+  });
+  canvas.dispatchEvent(event);
+}
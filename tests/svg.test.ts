@@ -0,0 +1,126 @@
+import { layersToSVG, strokesToSVG, svgToData } from '../src/svg';
+
+describe('SVG', function () {
+  it('should write text above the strokes of its layer', function () {
+    const svg = layersToSVG(
+      [{ texts: [{ text: 'A & B\nC', x: 0.1, y: 0.2, size: 0.1, font: 'serif', color: '#00f' }] }],
+      { width: 200, height: 100 },
+    );
+
+    expect(svg).toContain(
+      '<text font-family="serif" font-size="20" fill="#00f" dominant-baseline="text-before-edge">' +
+        '<tspan x="20" y="20">A &amp; B</tspan><tspan x="20" y="44">C</tspan></text>',
+    );
+  });
+
+  it('should write dashes and highlighter blending for brushes', function () {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 0.5, y: 0.5 },
+    ];
+    const svg = strokesToSVG(
+      [
+        { points: points, width: 0.01, brush: 'dashed' },
+        { points: points, width: 0.01, brush: 'highlighter' },
+      ],
+      { width: 200, height: 100 },
+    );
+
+    expect(svg).toContain('stroke-linecap="butt" stroke-dasharray="6 4"/>');
+    expect(svg).toContain('stroke-opacity="0.4" style="mix-blend-mode:multiply"/>');
+  });
+
+  it('should write one path per stroke with its style', function () {
+    const svg = strokesToSVG(
+      [
+        {
+          points: [
+            { x: 0, y: 0 },
+            { x: 0.5, y: 0.5 },
+          ],
+          width: 0.05,
+          color: '#f00',
+          cap: 'round',
+          join: 'bevel',
+          miterLimit: 4,
+        },
+      ],
+      { width: 200, height: 100 },
+      '#fff',
+    );
+
+    expect(svg).toContain('viewBox="0 0 200 100"');
+    expect(svg).toContain('<rect width="200" height="100" fill="#fff"/>');
+    expect(svg).toContain(
+      '<path d="M0 0 L100 50" fill="none" stroke="#f00" stroke-width="10" stroke-linecap="round" ' +
+        'stroke-linejoin="bevel" stroke-miterlimit="4"/>',
+    );
+  });
+
+  it('should split sub-paths at skipped points', function () {
+    const svg = strokesToSVG(
+      [
+        {
+          points: [
+            { x: 0, y: 0 },
+            { x: 0.1, y: 0.1 },
+            { x: 0.2, y: 0.2, skipped: true },
+            { x: 0.3, y: 0.3 },
+            { x: 0.4, y: 0.4 },
+          ],
+        },
+      ],
+      { width: 100, height: 100 },
+    );
+
+    expect(svg).toContain('d="M0 0 L10 10 M30 30 L40 40"');
+    expect(svg).not.toContain('<rect');
+  });
+
+  it('should group translucent layers with their opacity', function () {
+    const stroke = {
+      points: [
+        { x: 0, y: 0 },
+        { x: 0.5, y: 0.5 },
+      ],
+    };
+    const svg = layersToSVG(
+      [
+        { opacity: 1, strokes: [stroke] },
+        { opacity: 0.5, strokes: [stroke] },
+      ],
+      { width: 100, height: 100 },
+    );
+
+    expect(svg.match(/<path/g)?.length).toEqual(2);
+    expect(svg).toContain('<g opacity="0.5">\n<path d="M0 0 L50 50" fill="none"/>\n</g>');
+  });
+
+  it('should load paths back into normalized strokes', function () {
+    const data = svgToData(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 100">' +
+        '<path d="M0 0 L100 50 M20 20 l20 10" stroke="#00f" stroke-width="10" stroke-linecap="square"/>' +
+        '</svg>',
+    );
+
+    expect(data.strokes?.length).toEqual(2);
+    expect(data.strokes?.[0].points).toEqual([
+      { x: 0, y: 0, skipped: false },
+      { x: 0.5, y: 0.5, skipped: false },
+    ]);
+    expect(data.strokes?.[1].points).toEqual([
+      { x: 0.1, y: 0.2, skipped: false },
+      { x: 0.2, y: 0.3, skipped: false },
+    ]);
+    expect(data.strokes?.[0].width).toEqual(0.05);
+    expect(data.strokes?.[0].color).toEqual('#00f');
+    expect(data.strokes?.[0].cap).toEqual('square');
+  });
+
+  it('should reject unsupported SVG', function () {
+    expect(() => svgToData('<div></div>')).toThrowError('Invalid SVG: missing <svg> element');
+    expect(() => svgToData('<svg viewBox="0 0 10 10"><path d="M0 0 C1 1 2 2 3 3"/></svg>')).toThrowError(
+      'Invalid SVG: unsupported path command "C"',
+    );
+  });
+});
@@ -1,8 +1,7 @@
 import * as path from 'path';
 import * as webpack from 'webpack';
 
-const config: webpack.Configuration = {
-  entry: './src/sketchpad.ts',
+const common: webpack.Configuration = {
   mode: 'production',
   devtool: 'source-map',
   module: {
@@ -17,17 +16,42 @@ const config: webpack.Configuration = {
   resolve: {
     extensions: ['.ts'],
   },
-  output: {
-    path: path.resolve(__dirname, 'dist'),
-    filename: 'sketchpad.js',
-    libraryExport: 'default',
-    libraryTarget: 'umd',
-    library: {
-        root: 'Sketchpad',
-        amd: 'responsive-sketchpad',
-        commonjs: 'responsive-sketchpad',
+};
+
+const config: webpack.Configuration[] = [
+  {
+    ...common,
+    entry: './src/sketchpad.ts',
+    output: {
+      path: path.resolve(__dirname, 'dist'),
+      filename: 'sketchpad.js',
+      // The UMD wrapper is also loaded by Node, where there is no `self`
+      globalObject: 'this',
+      libraryExport: 'default',
+      libraryTarget: 'umd',
+      library: {
+          root: 'Sketchpad',
+          amd: 'responsive-sketchpad',
+          commonjs: 'responsive-sketchpad',
+      },
     },
   },
-};
+  {
+    // Draws saved data without a DOM, for servers
+    ...common,
+    entry: './src/render.ts',
+    output: {
+      path: path.resolve(__dirname, 'dist'),
+      filename: 'render.js',
+      globalObject: 'this',
+      libraryTarget: 'umd',
+      library: {
+          root: 'SketchpadRender',
+          amd: 'responsive-sketchpad/dist/render',
+          commonjs: 'responsive-sketchpad/dist/render',
+      },
+    },
+  },
+];
 
 export default config